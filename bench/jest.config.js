@@ -0,0 +1,8 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  rootDir: '..',
+  testMatch: ['<rootDir>/bench/**/*.bench.ts'],
+  verbose: true,
+  silent: false,
+};
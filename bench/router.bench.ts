@@ -0,0 +1,95 @@
+import * as _ from 'lodash';
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { OpenAPIRouter, Operation, Request } from '../src/router';
+
+const OPERATION_COUNT = 400;
+const ITERATIONS = 200;
+
+const responses: OpenAPIV3.ResponsesObject & OpenAPIV3_1.ResponsesObject = {
+  200: { description: 'ok' },
+};
+
+/**
+ * Builds a definition with roughly OPERATION_COUNT operations spread over static and templated paths
+ */
+function buildDefinition(): OpenAPIV3_1.Document {
+  const paths: OpenAPIV3_1.PathsObject = {};
+  for (let i = 0; i < OPERATION_COUNT / 4; i++) {
+    paths[`/resource${i}`] = {
+      get: { operationId: `list${i}`, responses },
+      post: { operationId: `create${i}`, responses },
+    };
+    paths[`/resource${i}/{id}`] = {
+      get: { operationId: `get${i}`, responses },
+    };
+    paths[`/resource${i}/{id}/children/{childId}`] = {
+      get: { operationId: `getChild${i}`, responses },
+    };
+  }
+  return {
+    openapi: '3.1.0',
+    info: { title: 'bench', version: '1.0.0' },
+    paths,
+  };
+}
+
+/**
+ * Reference implementation of the previous router, which rebuilds the operation list and compiles a regex for every
+ * templated path on each request
+ */
+function naiveMatchOperation(router: OpenAPIRouter, req: Request): Operation | undefined {
+  req = router.normalizeRequest(req);
+  const normalizedPath = router.normalizePath(req.path);
+
+  const exactMatch = router
+    .getOperations()
+    .filter(({ path }) => path === normalizedPath)
+    .find(({ method }) => method === req.method);
+  if (exactMatch) {
+    return exactMatch;
+  }
+
+  const templatePathMatches = router.getOperations().filter(({ path }) => {
+    const pathPattern = `^${path.replace(/\{.*?\}/g, '[^/]+')}$`;
+    return Boolean(normalizedPath.match(new RegExp(pathPattern, 'g')));
+  });
+
+  return _.chain(templatePathMatches)
+    .orderBy((op) => op.path.replace(RegExp(/\{.*?\}/g), '').length, 'desc')
+    .find(({ method }) => method === req.method)
+    .value();
+}
+
+function measure(fn: () => void): number {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < ITERATIONS; i++) {
+    fn();
+  }
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+describe('OpenAPIRouter.matchOperation benchmark', () => {
+  const router = new OpenAPIRouter({ definition: buildDefinition() });
+  const last = OPERATION_COUNT / 4 - 1;
+  const requests: Request[] = [
+    { method: 'get', path: `/resource${last}`, headers: {} },
+    { method: 'get', path: `/resource${last}/123`, headers: {} },
+    { method: 'get', path: `/resource${last}/123/children/456`, headers: {} },
+    { method: 'get', path: '/unknown/path', headers: {} },
+  ];
+
+  for (const req of requests) {
+    test(`${req.method.toUpperCase()} ${req.path}`, () => {
+      const expected = naiveMatchOperation(router, req);
+      expect(router.matchOperation(req)?.operationId).toEqual(expected?.operationId);
+
+      const naiveMs = measure(() => naiveMatchOperation(router, req));
+      const trieMs = measure(() => router.matchOperation(req));
+      console.log(
+        `${req.method.toUpperCase()} ${req.path}: naive ${naiveMs.toFixed(1)}ms, trie ${trieMs.toFixed(1)}ms ` +
+          `(${(naiveMs / trieMs).toFixed(1)}x faster, ${ITERATIONS} iterations, ${OPERATION_COUNT} operations)`,
+      );
+      expect(trieMs).toBeLessThan(naiveMs);
+    });
+  }
+});
@@ -0,0 +1,90 @@
+// library code, any is fine
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as _ from 'lodash';
+import type { OperationResponse } from '../backend';
+import OpenAPIUtils from '../utils';
+import OpenAPIDeserializer from '../deserialize';
+
+/**
+ * A response serialized to be written to the wire by an adapter
+ *
+ * @export
+ * @interface SerializedResponse
+ */
+export interface SerializedResponse {
+  statusCode: number;
+  headers: { [header: string]: string | string[] };
+  body?: string | Buffer;
+}
+
+// responses with these status codes must not have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Decodes a raw request body read by an adapter
+ *
+ * Text bodies, i.e. JSON and form bodies, and bodies without a content type are decoded as utf-8 text. Any other body
+ * is kept as a Buffer so its bytes stay intact, including multipart bodies whose file parts the deserializer keeps
+ * intact, see OpenAPIDeserializer.parseMultipart.
+ *
+ * @export
+ * @param {Buffer} body
+ * @param {string} [contentType] - Content-Type header of the request
+ * @returns {(string | Buffer)}
+ */
+export function decodeRequestBody(body: Buffer, contentType?: string | string[]): string | Buffer {
+  const isText = !OpenAPIDeserializer.getMediaType(contentType) || OpenAPIDeserializer.isTextMediaType(contentType);
+  return isText ? body.toString('utf8') : body;
+}
+
+/**
+ * Normalizes a handler return value into an OperationResponse
+ * - OperationResponses are returned as-is
+ * - undefined is an empty 204 No Content response
+ * - any other value is the body of a 200 OK response
+ *
+ * @export
+ * @param {*} result - handler return value
+ * @returns {OperationResponse}
+ */
+export function toOperationResponse(result: any): OperationResponse {
+  if (OpenAPIUtils.isOperationResponse(result)) {
+    return result;
+  }
+  if (result === undefined) {
+    return { statusCode: 204 };
+  }
+  return { statusCode: 200, body: result };
+}
+
+/**
+ * Serializes an OperationResponse
+ *
+ * Header names are lowercased and their values converted to strings. String and Buffer bodies are passed as-is, any
+ * other body is serialized as JSON with content-type application/json, unless a content-type is already set. The body
+ * is dropped for statuses that must not have one, i.e. 204 No Content and 304 Not Modified.
+ *
+ * @export
+ * @param {OperationResponse} response
+ * @returns {SerializedResponse}
+ */
+export function serializeResponse(response: OperationResponse): SerializedResponse {
+  const headers = _.mapValues(
+    _.mapKeys(response.headers, (value, header) => header.toLowerCase()),
+    (value) => (Array.isArray(value) ? value.map(String) : String(value)),
+  );
+
+  const { body } = response;
+  if (NULL_BODY_STATUSES.includes(response.statusCode)) {
+    return { statusCode: response.statusCode, headers };
+  }
+  if (body === undefined || body === null || typeof body === 'string' || Buffer.isBuffer(body)) {
+    return { statusCode: response.statusCode, headers, body: body ?? undefined };
+  }
+  return {
+    statusCode: response.statusCode,
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  };
+}
@@ -0,0 +1,190 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAPIBackend } from '../backend';
+import { OpenAPIV3_1 } from 'openapi-types';
+import { ExpressMiddlewareOptions, ExpressRequest, readNodeBody } from '../index';
+
+const definition: OpenAPIV3_1.Document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'api',
+    version: '1.0.0',
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'getPets',
+        responses: { 200: { description: 'ok' } },
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+            },
+          },
+        },
+        responses: { 201: { description: 'created' } },
+      },
+    },
+    '/pets/{id}': {
+      get: {
+        operationId: 'getPetById',
+        responses: { 200: { description: 'ok' } },
+      },
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+    },
+  },
+};
+
+// a minimal connect-style app: optional json body parser, the middleware, then fallback and error handlers
+const createApp = (api: OpenAPIBackend, opts: ExpressMiddlewareOptions & { parseJson?: boolean } = {}) => {
+  const middleware = api.createExpressMiddleware(opts);
+  return http.createServer(async (req: ExpressRequest, res) => {
+    if (opts.parseJson && req.headers['content-type'] === 'application/json') {
+      req.body = { ...JSON.parse((await readNodeBody(req)).toString()), parsed: true };
+    }
+    await middleware(req, res, (err) => {
+      res.statusCode = err ? 500 : 418;
+      res.end(err ? `error: ${err.message}` : 'next');
+    });
+  });
+};
+
+const listen = async (server: http.Server) => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+describe('express adapter', () => {
+  const api = new OpenAPIBackend({
+    definition,
+    handlers: {
+      getPets: (c, req: ExpressRequest, res: http.ServerResponse) => {
+        // handlers may also respond with the express res themselves
+        res.statusCode = 200;
+        res.end('[]');
+      },
+      createPet: (c) => c.reply(201, c.request.requestBody),
+      getPetById: () => {
+        throw new Error('boom');
+      },
+      validationFail: (c) => c.reply(400, { errors: c.validation.errors?.length }),
+    },
+  });
+
+  describe('with default options', () => {
+    const server = createApp(api);
+    let url: string;
+
+    beforeAll(async () => {
+      url = await listen(server);
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('handles GET /pets', async () => {
+      const res = await fetch(`${url}/pets`);
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe('[]');
+    });
+
+    test('reads the body from the request stream without a body parser', async () => {
+      const res = await fetch(`${url}/pets`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: 'Garfield' }),
+      });
+      expect(res.status).toBe(201);
+      expect(await res.json()).toEqual({ name: 'Garfield' });
+    });
+
+    test('validates the request body', async () => {
+      const res = await fetch(`${url}/pets`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    test('calls next() for unmatched requests', async () => {
+      const res = await fetch(`${url}/unknown`);
+      expect(res.status).toBe(418);
+      expect(await res.text()).toBe('next');
+    });
+
+    test('handles requests with a method not allowed for a matched path', async () => {
+      const res = await fetch(`${url}/pets`, { method: 'DELETE' });
+      expect(res.status).toBe(500);
+      expect(await res.text()).toMatch(/^error: 405-methodNotAllowed/);
+    });
+
+    test('calls next(err) for thrown errors', async () => {
+      const res = await fetch(`${url}/pets/1`);
+      expect(res.status).toBe(500);
+      expect(await res.text()).toBe('error: boom');
+    });
+  });
+
+  describe('with a body parser', () => {
+    const server = createApp(api, { parseJson: true });
+    let url: string;
+
+    beforeAll(async () => {
+      url = await listen(server);
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('uses the already parsed req.body', async () => {
+      const res = await fetch(`${url}/pets`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: 'Garfield' }),
+      });
+      expect(res.status).toBe(201);
+      expect(await res.json()).toEqual({ name: 'Garfield', parsed: true });
+    });
+  });
+
+  describe('with mountUnmatched', () => {
+    const server = createApp(api, { mountUnmatched: true });
+    let url: string;
+
+    beforeAll(async () => {
+      url = await listen(server);
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('passes 404 errors to next(err) without a notFound handler', async () => {
+      const res = await fetch(`${url}/unknown`);
+      expect(res.status).toBe(500);
+      expect(await res.text()).toMatch(/^error: 404-notFound/);
+    });
+
+    test('handles unmatched requests with the notFound handler', async () => {
+      const mounted = new OpenAPIBackend({
+        definition,
+        handlers: { notFound: (c) => c.reply(404, { err: 'not found' }) },
+      });
+      const notFoundServer = createApp(mounted, { mountUnmatched: true });
+      const notFoundUrl = await listen(notFoundServer);
+      try {
+        const res = await fetch(`${notFoundUrl}/unknown`);
+        expect(res.status).toBe(404);
+        expect(await res.json()).toEqual({ err: 'not found' });
+      } finally {
+        await new Promise((resolve) => notFoundServer.close(resolve));
+      }
+    });
+  });
+});
@@ -0,0 +1,101 @@
+// library code, any is fine
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { OpenAPIBackend, Document } from '../backend';
+import type { Request } from '../router';
+import { NotFoundError } from '../errors';
+import { fromNodeRequest, fromNodeRequestHead, NodeListenerOptions, writeNodeResponse } from './node';
+
+/**
+ * Options for the Express / Connect middleware
+ *
+ * @export
+ * @interface ExpressMiddlewareOptions
+ */
+export interface ExpressMiddlewareOptions extends NodeListenerOptions {
+  /**
+   * handle requests that don't match any path with the api (i.e. the notFound handler), instead of passing them on to
+   * the next middleware (default: false)
+   */
+  mountUnmatched?: boolean;
+}
+
+/**
+ * An Express / Connect request, optionally with a body already parsed by a body parser middleware
+ */
+export type ExpressRequest = IncomingMessage & { body?: any };
+
+/**
+ * An Express / Connect middleware, i.e. app.use(middleware)
+ */
+export type ExpressMiddleware = (req: ExpressRequest, res: ServerResponse, next: (err?: any) => void) => Promise<void>;
+
+/**
+ * Converts an Express / Connect request into a Request
+ *
+ * If a body parser middleware already consumed the request stream, its parsed req.body is used as-is. Otherwise the
+ * body is read from the request stream. The path is relative to where the middleware is mounted, i.e. req.url.
+ *
+ * @export
+ * @param {ExpressRequest} req
+ * @param {NodeListenerOptions} [opts]
+ * @returns {Promise<Request>}
+ */
+export async function fromExpressRequest(req: ExpressRequest, opts: NodeListenerOptions = {}): Promise<Request> {
+  if (!req.readableEnded) {
+    return fromNodeRequest(req, opts);
+  }
+  const request = fromNodeRequestHead(req);
+  return req.body === undefined ? request : { ...request, body: req.body };
+}
+
+/**
+ * Checks whether a request matches a path of the api, regardless of its method
+ *
+ * @param {OpenAPIBackend} api
+ * @param {ExpressRequest} req
+ * @returns {boolean}
+ */
+function matchesPath<D extends Document = Document>(api: OpenAPIBackend<D>, req: ExpressRequest): boolean {
+  try {
+    api.router.matchOperation(fromNodeRequestHead(req), true);
+    return true;
+  } catch (err) {
+    // a matched path with an unsupported method throws MethodNotAllowedError instead
+    return !(err instanceof NotFoundError);
+  }
+}
+
+/**
+ * Creates an Express / Connect middleware for an OpenAPIBackend instance
+ *
+ * The Express req and res are passed to handlers after the context. Requests not matching any path are passed on with
+ * next() unless opts.mountUnmatched is set, while requests with a method not allowed for a matched path are handled by
+ * the api (i.e. the methodNotAllowed handler). Errors thrown while handling the request are passed on with next(err) to
+ * the error handling middleware.
+ *
+ * @export
+ * @param {OpenAPIBackend} api
+ * @param {ExpressMiddlewareOptions} [opts]
+ * @returns {ExpressMiddleware}
+ */
+export function createExpressMiddleware<D extends Document = Document>(
+  api: OpenAPIBackend<D>,
+  opts: ExpressMiddlewareOptions = {},
+): ExpressMiddleware {
+  return async (req, res, next) => {
+    try {
+      if (!api.initalized) {
+        await api.init();
+      }
+      if (!opts.mountUnmatched && !matchesPath(api, req)) {
+        return next();
+      }
+      const request = await fromExpressRequest(req, opts);
+      writeNodeResponse(res, await api.handleRequest(request, req, res));
+    } catch (err) {
+      next(err);
+    }
+  };
+}
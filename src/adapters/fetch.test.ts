@@ -0,0 +1,163 @@
+import { OpenAPIBackend } from '../backend';
+import { OpenAPIV3_1 } from 'openapi-types';
+import OpenAPIDeserializer from '../deserialize';
+import { fromFetchRequest, toFetchResponse } from './fetch';
+
+const definition: OpenAPIV3_1.Document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'api',
+    version: '1.0.0',
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'getPets',
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+        responses: { 200: { description: 'ok' } },
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+            },
+          },
+        },
+        responses: { 201: { description: 'created' } },
+      },
+    },
+  },
+};
+
+describe('fetch adapter', () => {
+  describe('fromFetchRequest', () => {
+    test('converts url, query and headers', async () => {
+      const req = await fromFetchRequest(
+        new Request('http://localhost/pets?limit=10&tag=cat', { headers: { 'X-Request-Id': '1' } }),
+      );
+      expect(req).toEqual({
+        method: 'get',
+        path: '/pets',
+        query: 'limit=10&tag=cat',
+        headers: { 'x-request-id': '1' },
+      });
+    });
+
+    test('reads the body as text', async () => {
+      const req = await fromFetchRequest(
+        new Request('http://localhost/pets', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ name: 'Garfield' }),
+        }),
+      );
+      expect(req.body).toBe('{"name":"Garfield"}');
+    });
+
+    test('reads multipart bodies as a buffer', async () => {
+      const form = new FormData();
+      form.append('name', 'Garfield');
+      const req = await fromFetchRequest(new Request('http://localhost/pets', { method: 'POST', body: form }));
+      expect(Buffer.isBuffer(req.body)).toBe(true);
+      expect(req.body.toString()).toContain('Garfield');
+    });
+
+    test('reads binary bodies as a buffer', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00]);
+      const req = await fromFetchRequest(
+        new Request('http://localhost/pets', { method: 'PUT', headers: { 'content-type': 'image/png' }, body: png }),
+      );
+      expect(req.body).toEqual(png);
+    });
+
+    test('keeps the bytes of uploaded files', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0xfe, 0x00, 0x80]);
+      const form = new FormData();
+      form.append('file', new Blob([png], { type: 'image/png' }), 'garfield.png');
+      const req = await fromFetchRequest(new Request('http://localhost/pets', { method: 'POST', body: form }));
+      const body = OpenAPIDeserializer.deserializeRequestBody(req.body, req.headers['content-type']);
+      expect(Buffer.from(body.file, 'latin1')).toEqual(png);
+    });
+  });
+
+  describe('toFetchResponse', () => {
+    test('serializes OperationResponse bodies as json', async () => {
+      const res = toFetchResponse({ statusCode: 201, headers: { 'X-Request-Id': 1 }, body: { name: 'Garfield' } });
+      expect(res.status).toBe(201);
+      expect(res.headers.get('content-type')).toBe('application/json');
+      expect(res.headers.get('x-request-id')).toBe('1');
+      expect(await res.json()).toEqual({ name: 'Garfield' });
+    });
+
+    test('keeps string bodies and content-type', async () => {
+      const res = toFetchResponse({ statusCode: 200, headers: { 'Content-Type': 'text/csv' }, body: 'name' });
+      expect(res.headers.get('content-type')).toBe('text/csv');
+      expect(await res.text()).toBe('name');
+    });
+
+    test('appends multi-value headers', async () => {
+      const res = toFetchResponse({ statusCode: 204, headers: { 'set-cookie': ['a=1', 'b=2'] } });
+      expect(res.headers.getSetCookie()).toEqual(['a=1', 'b=2']);
+    });
+
+    test('responds 200 with other values and 204 without a value', async () => {
+      expect(await toFetchResponse([1, 2]).json()).toEqual([1, 2]);
+      expect(toFetchResponse(undefined).status).toBe(204);
+    });
+
+    test('drops the body of statuses without content', async () => {
+      const res = toFetchResponse({ statusCode: 204, body: {} });
+      expect(res.status).toBe(204);
+      expect(res.headers.get('content-type')).toBe(null);
+      expect(await res.text()).toBe('');
+    });
+
+    test('passes fetch responses through', async () => {
+      const response = new Response('ok', { status: 202 });
+      expect(toFetchResponse(response)).toBe(response);
+    });
+  });
+
+  describe('.createFetchHandler', () => {
+    const api = new OpenAPIBackend({
+      definition,
+      handlers: {
+        getPets: (c, request: Request) => c.reply(200, { url: request.url, query: c.request.query }),
+        createPet: (c) => c.reply(201, c.request.requestBody),
+        validationFail: (c) => c.reply(400, { errors: c.validation.errors?.length }),
+      },
+    });
+
+    test('handles fetch requests', async () => {
+      const res = await api.createFetchHandler()(new Request('http://localhost/pets?limit=10'));
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ url: 'http://localhost/pets?limit=10', query: { limit: '10' } });
+    });
+
+    test('handles fetch requests with a body', async () => {
+      const res = await api.createFetchHandler()(
+        new Request('http://localhost/pets', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ name: 'Garfield' }),
+        }),
+      );
+      expect(res.status).toBe(201);
+      expect(await res.json()).toEqual({ name: 'Garfield' });
+    });
+
+    test('handles invalid fetch requests', async () => {
+      const res = await api.createFetchHandler()(
+        new Request('http://localhost/pets', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({}),
+        }),
+      );
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ errors: 1 });
+    });
+  });
+});
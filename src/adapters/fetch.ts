@@ -0,0 +1,81 @@
+// library code, any is fine
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { OpenAPIBackend, Document } from '../backend';
+import type { Request } from '../router';
+import { decodeRequestBody, serializeResponse, toOperationResponse } from './common';
+
+/**
+ * A handler for WHATWG fetch Requests, i.e. Bun.serve, Deno.serve or a Cloudflare Workers fetch handler
+ */
+export type FetchHandler = (request: globalThis.Request, ...args: any[]) => Promise<globalThis.Response>;
+
+/**
+ * Converts a WHATWG fetch Request into a Request, reading the body from its stream
+ *
+ * Multipart bodies are read as a Buffer and other bodies as text, see decodeRequestBody
+ *
+ * @export
+ * @param {globalThis.Request} request
+ * @returns {Promise<Request>}
+ */
+export async function fromFetchRequest(request: globalThis.Request): Promise<Request> {
+  const url = new URL(request.url);
+  const headers: Request['headers'] = {};
+  request.headers.forEach((value, header) => {
+    headers[header] = value;
+  });
+
+  let body: string | Buffer | undefined;
+  if (request.body) {
+    body = decodeRequestBody(Buffer.from(await request.arrayBuffer()), headers['content-type']);
+  }
+
+  return {
+    method: request.method.toLowerCase(),
+    path: url.pathname,
+    query: url.search.replace(/^\?/, ''),
+    headers,
+    ...(body ? { body } : {}),
+  };
+}
+
+/**
+ * Converts a handler return value into a WHATWG fetch Response
+ *
+ * fetch Responses are passed through as-is, any other value is normalized into an OperationResponse
+ *
+ * @export
+ * @param {*} result - handler return value
+ * @returns {globalThis.Response}
+ */
+export function toFetchResponse(result: any): globalThis.Response {
+  if (result instanceof Response) {
+    return result;
+  }
+  const { statusCode, headers, body } = serializeResponse(toOperationResponse(result));
+
+  const responseHeaders = new Headers();
+  for (const [header, value] of Object.entries(headers)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      responseHeaders.append(header, item);
+    }
+  }
+  return new Response(body ?? null, { status: statusCode, headers: responseHeaders });
+}
+
+/**
+ * Creates a WHATWG fetch handler for an OpenAPIBackend instance
+ *
+ * The fetch Request and any additional arguments, i.e. env and ctx in Cloudflare Workers, are passed to handlers
+ *
+ * @export
+ * @param {OpenAPIBackend} api
+ * @returns {FetchHandler}
+ */
+export function createFetchHandler<D extends Document = Document>(api: OpenAPIBackend<D>): FetchHandler {
+  return async (request, ...args) => {
+    const req = await fromFetchRequest(request);
+    return toFetchResponse(await api.handleRequest(req, request, ...args));
+  };
+}
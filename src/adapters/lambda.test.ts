@@ -0,0 +1,268 @@
+import { OpenAPIBackend } from '../backend';
+import { OpenAPIV3_1 } from 'openapi-types';
+import { ALBEvent, APIGatewayProxyEvent, APIGatewayProxyEventV2, fromLambdaEvent, getLambdaEventType } from './lambda';
+
+const definition: OpenAPIV3_1.Document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'api',
+    version: '1.0.0',
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'getPets',
+        parameters: [
+          { name: 'tag', in: 'query', schema: { type: 'array', items: { type: 'string' } } },
+          { name: 'session', in: 'cookie', schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'ok' } },
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+            },
+          },
+        },
+        responses: { 201: { description: 'created' } },
+      },
+    },
+    '/pets/image': {
+      get: {
+        operationId: 'getPetImage',
+        responses: { 200: { description: 'ok' } },
+      },
+      put: {
+        operationId: 'replacePetImage',
+        requestBody: { content: { 'image/png': { schema: { type: 'string', format: 'binary' } } } },
+        responses: { 200: { description: 'ok' } },
+      },
+    },
+  },
+};
+
+const v1Event = (event: Partial<APIGatewayProxyEvent>): APIGatewayProxyEvent => ({
+  httpMethod: 'GET',
+  path: '/pets',
+  headers: {},
+  multiValueHeaders: {},
+  queryStringParameters: null,
+  multiValueQueryStringParameters: null,
+  body: null,
+  isBase64Encoded: false,
+  requestContext: { stage: 'dev', path: '/dev/pets' },
+  ...event,
+});
+
+const v2Event = (event: Partial<APIGatewayProxyEventV2>): APIGatewayProxyEventV2 => ({
+  version: '2.0',
+  rawPath: '/pets',
+  rawQueryString: '',
+  headers: {},
+  isBase64Encoded: false,
+  requestContext: { stage: '$default', http: { method: 'GET', path: '/pets' } },
+  ...event,
+});
+
+const albEvent = (event: Partial<ALBEvent>): ALBEvent => ({
+  httpMethod: 'GET',
+  path: '/pets',
+  headers: {},
+  queryStringParameters: {},
+  body: '',
+  isBase64Encoded: false,
+  requestContext: { elb: { targetGroupArn: 'arn:aws:elasticloadbalancing:eu-west-1:123:targetgroup/pets/1' } },
+  ...event,
+});
+
+describe('lambda adapter', () => {
+  describe('.getLambdaEventType', () => {
+    test('tells apart v1, v2 and alb events', () => {
+      expect(getLambdaEventType(v1Event({}))).toBe('v1');
+      expect(getLambdaEventType(v2Event({}))).toBe('v2');
+      expect(getLambdaEventType(albEvent({}))).toBe('alb');
+    });
+  });
+
+  describe('.fromLambdaEvent', () => {
+    test('maps multi-value query parameters and headers of v1 events', () => {
+      const req = fromLambdaEvent(
+        v1Event({
+          queryStringParameters: { tag: 'b', q: 'a b' },
+          multiValueQueryStringParameters: { tag: ['a', 'b'], q: ['a b'] },
+          headers: { Accept: 'application/json' },
+          multiValueHeaders: { Accept: ['application/json'], 'X-Ids': ['1', '2'] },
+        }),
+      );
+      expect(req).toEqual({
+        method: 'get',
+        path: '/pets',
+        query: 'tag=a&tag=b&q=a%20b',
+        headers: { accept: 'application/json', 'x-ids': ['1', '2'] },
+      });
+    });
+
+    test('keeps alb query parameters encoded as sent', () => {
+      const req = fromLambdaEvent(albEvent({ queryStringParameters: { q: 'a%20b' } }));
+      expect(req.query).toBe('q=a%20b');
+    });
+
+    test('strips the stage prefix of v2 events', () => {
+      const req = fromLambdaEvent(
+        v2Event({ rawPath: '/dev/pets', requestContext: { stage: 'dev', http: { method: 'GET' } } }),
+      );
+      expect(req.path).toBe('/pets');
+    });
+
+    test('decodes base64 encoded bodies', () => {
+      const req = fromLambdaEvent(
+        v1Event({
+          httpMethod: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: Buffer.from('{"name":"Garfield"}').toString('base64'),
+          isBase64Encoded: true,
+        }),
+      );
+      expect(req.body).toBe('{"name":"Garfield"}');
+    });
+  });
+
+  describe('.createLambdaHandler', () => {
+    const api = new OpenAPIBackend({
+      definition,
+      handlers: {
+        getPets: (c) =>
+          c.reply(
+            200,
+            { tag: c.request.query.tag, session: c.request.cookies.session },
+            { 'Set-Cookie': ['a=1', 'b=2'] },
+          ),
+        createPet: (c) => c.reply(201, c.request.requestBody),
+        getPetImage: (c) => c.reply(200, Buffer.from([0x89, 0x50, 0x4e, 0x47]), { 'Content-Type': 'image/png' }),
+        replacePetImage: (c) => c.reply(200, c.request.requestBody, { 'Content-Type': 'image/png' }),
+        validationFail: (c) => c.reply(400, { err: c.validation.errors }),
+      },
+    });
+    const handler = api.createLambdaHandler();
+
+    test('responds to v1 events with multiValueHeaders', async () => {
+      const res = await handler(
+        v1Event({
+          multiValueQueryStringParameters: { tag: ['a', 'b'] },
+          multiValueHeaders: { Cookie: ['session=abc'] },
+        }),
+      );
+      expect(res).toEqual({
+        statusCode: 200,
+        headers: { 'content-type': 'application/json' },
+        multiValueHeaders: { 'set-cookie': ['a=1', 'b=2'] },
+        body: JSON.stringify({ tag: ['a', 'b'], session: 'abc' }),
+        isBase64Encoded: false,
+      });
+    });
+
+    test('responds to v2 events with cookies', async () => {
+      const res = await handler(
+        v2Event({
+          rawPath: '/dev/pets',
+          rawQueryString: 'tag=a&tag=b',
+          cookies: ['session=abc'],
+          requestContext: { stage: 'dev', http: { method: 'GET' } },
+        }),
+      );
+      expect(res).toEqual({
+        statusCode: 200,
+        headers: { 'content-type': 'application/json' },
+        cookies: ['a=1', 'b=2'],
+        body: JSON.stringify({ tag: ['a', 'b'], session: 'abc' }),
+        isBase64Encoded: false,
+      });
+    });
+
+    test('responds to alb events with multi-value headers when enabled', async () => {
+      const res = await handler(
+        albEvent({
+          headers: undefined,
+          queryStringParameters: undefined,
+          multiValueHeaders: { cookie: ['session=abc'] },
+          multiValueQueryStringParameters: { tag: ['a', 'b'] },
+        }),
+      );
+      expect(res).toEqual({
+        statusCode: 200,
+        statusDescription: '200 OK',
+        multiValueHeaders: { 'content-type': ['application/json'], 'set-cookie': ['a=1', 'b=2'] },
+        body: JSON.stringify({ tag: ['a', 'b'], session: 'abc' }),
+        isBase64Encoded: false,
+      });
+    });
+
+    test('responds to alb events with single-value headers', async () => {
+      const res = await handler(albEvent({ queryStringParameters: { tag: 'a' } }));
+      expect(res).toMatchObject({
+        statusCode: 200,
+        statusDescription: '200 OK',
+        headers: { 'content-type': 'application/json', 'set-cookie': 'b=2' },
+      });
+    });
+
+    test('validates base64 encoded request bodies', async () => {
+      const res = await handler(
+        v2Event({
+          rawPath: '/pets',
+          headers: { 'content-type': 'application/json' },
+          body: Buffer.from('{"name":"Garfield"}').toString('base64'),
+          isBase64Encoded: true,
+          requestContext: { stage: '$default', http: { method: 'POST' } },
+        }),
+      );
+      expect(res.statusCode).toBe(201);
+      expect(JSON.parse(res.body)).toEqual({ name: 'Garfield' });
+    });
+
+    test('base64 encodes binary response bodies', async () => {
+      const res = await handler(v1Event({ path: '/pets/image' }));
+      expect(res).toEqual({
+        statusCode: 200,
+        headers: { 'content-type': 'image/png' },
+        body: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64'),
+        isBase64Encoded: true,
+      });
+    });
+
+    test('drops the body of statuses without content', async () => {
+      const noContent = new OpenAPIBackend({ definition, handlers: { getPets: (c) => c.reply(304, 'cached') } });
+      expect(await noContent.createLambdaHandler()(v1Event({}))).toEqual({
+        statusCode: 304,
+        headers: {},
+        body: '',
+        isBase64Encoded: false,
+      });
+    });
+
+    test('keeps the bytes of base64 encoded binary request bodies', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00]);
+      const res = await handler(
+        v1Event({
+          httpMethod: 'PUT',
+          path: '/pets/image',
+          headers: { 'content-type': 'image/png' },
+          body: png.toString('base64'),
+          isBase64Encoded: true,
+        }),
+      );
+      expect(res.statusCode).toBe(200);
+      expect(res.isBase64Encoded).toBe(true);
+      expect(Buffer.from(res.body, 'base64')).toEqual(png);
+    });
+
+    test('passes through lambda results returned by handlers', async () => {
+      const result = { statusCode: 200, body: 'ok', isBase64Encoded: false };
+      const passthrough = new OpenAPIBackend({ definition, handlers: { getPets: () => result } });
+      expect(await passthrough.createLambdaHandler()(v1Event({}))).toBe(result);
+    });
+  });
+});
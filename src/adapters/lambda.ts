@@ -0,0 +1,418 @@
+// library code, any is fine
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as _ from 'lodash';
+import { STATUS_CODES } from 'http';
+import type { OpenAPIBackend, Document } from '../backend';
+import type { Request } from '../router';
+import { decodeRequestBody, SerializedResponse, serializeResponse, toOperationResponse } from './common';
+
+type LambdaHeaders = { [header: string]: string | undefined };
+type LambdaMultiValueHeaders = { [header: string]: string[] | undefined };
+
+/**
+ * API Gateway REST API (payload format 1.0) proxy event
+ *
+ * @export
+ * @interface APIGatewayProxyEvent
+ */
+export interface APIGatewayProxyEvent {
+  httpMethod: string;
+  path: string;
+  headers?: LambdaHeaders | null;
+  multiValueHeaders?: LambdaMultiValueHeaders | null;
+  queryStringParameters?: LambdaHeaders | null;
+  multiValueQueryStringParameters?: LambdaMultiValueHeaders | null;
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  requestContext?: { stage?: string; [key: string]: any };
+  [key: string]: any;
+}
+
+/**
+ * API Gateway HTTP API (payload format 2.0) proxy event
+ *
+ * @export
+ * @interface APIGatewayProxyEventV2
+ */
+export interface APIGatewayProxyEventV2 {
+  version: '2.0';
+  rawPath: string;
+  rawQueryString?: string;
+  headers?: LambdaHeaders | null;
+  cookies?: string[];
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  requestContext: { stage?: string; http: { method: string; path?: string }; [key: string]: any };
+  [key: string]: any;
+}
+
+/**
+ * Application Load Balancer Lambda target event
+ *
+ * @export
+ * @interface ALBEvent
+ */
+export interface ALBEvent {
+  httpMethod: string;
+  path: string;
+  headers?: LambdaHeaders | null;
+  multiValueHeaders?: LambdaMultiValueHeaders | null;
+  queryStringParameters?: LambdaHeaders | null;
+  multiValueQueryStringParameters?: LambdaMultiValueHeaders | null;
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  requestContext: { elb: { targetGroupArn: string } };
+  [key: string]: any;
+}
+
+export type LambdaEvent = APIGatewayProxyEvent | APIGatewayProxyEventV2 | ALBEvent;
+
+/**
+ * API Gateway REST API (payload format 1.0) proxy result
+ *
+ * @export
+ * @interface APIGatewayProxyResult
+ */
+export interface APIGatewayProxyResult {
+  statusCode: number;
+  headers?: { [header: string]: string };
+  multiValueHeaders?: { [header: string]: string[] };
+  body: string;
+  isBase64Encoded: boolean;
+}
+
+/**
+ * API Gateway HTTP API (payload format 2.0) proxy result
+ *
+ * @export
+ * @interface APIGatewayProxyResultV2
+ */
+export interface APIGatewayProxyResultV2 {
+  statusCode: number;
+  headers?: { [header: string]: string };
+  cookies?: string[];
+  body: string;
+  isBase64Encoded: boolean;
+}
+
+/**
+ * Application Load Balancer Lambda target result
+ *
+ * @export
+ * @interface ALBResult
+ */
+export interface ALBResult {
+  statusCode: number;
+  statusDescription: string;
+  headers?: { [header: string]: string };
+  multiValueHeaders?: { [header: string]: string[] };
+  body: string;
+  isBase64Encoded: boolean;
+}
+
+export type LambdaResult = APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult;
+
+/**
+ * A Lambda handler for API Gateway REST and HTTP API proxy events, and ALB events
+ */
+export type LambdaHandler = (event: LambdaEvent, context?: any, ...args: any[]) => Promise<LambdaResult>;
+
+/**
+ * Tells apart API Gateway REST API (v1), HTTP API (v2) and ALB events
+ *
+ * @export
+ * @param {LambdaEvent} event
+ * @returns {('v1' | 'v2' | 'alb')}
+ */
+export function getLambdaEventType(event: LambdaEvent): 'v1' | 'v2' | 'alb' {
+  if (event.version === '2.0') {
+    return 'v2';
+  }
+  if (event.requestContext?.elb) {
+    return 'alb';
+  }
+  return 'v1';
+}
+
+/**
+ * Builds request headers from event headers, preferring multi-value headers when present
+ */
+const toRequestHeaders = (
+  headers?: LambdaHeaders | null,
+  multiValueHeaders?: LambdaMultiValueHeaders | null,
+): Request['headers'] => {
+  const result: Request['headers'] = {};
+  for (const [header, value] of Object.entries(headers || {})) {
+    if (value !== undefined) {
+      result[header.toLowerCase()] = value;
+    }
+  }
+  for (const [header, values] of Object.entries(multiValueHeaders || {})) {
+    if (values?.length) {
+      result[header.toLowerCase()] = values.length === 1 ? values[0] : values;
+    }
+  }
+  return result;
+};
+
+/**
+ * Builds a query string from event query parameters, preferring multi-value parameters when present
+ *
+ * API Gateway passes decoded parameters which are encoded again, ALB passes them as they were sent
+ */
+const toQueryString = (
+  params: LambdaHeaders | null | undefined,
+  multiValueParams: LambdaMultiValueHeaders | null | undefined,
+  encode: boolean,
+): string => {
+  const pairs: string[] = [];
+  const values: LambdaMultiValueHeaders = multiValueParams
+    ? multiValueParams
+    : Object.fromEntries(Object.entries(params || {}).map(([key, value]) => [key, [value]]));
+  for (const [key, items] of Object.entries(values)) {
+    for (const value of items || []) {
+      pairs.push(encode ? `${encodeURIComponent(key)}=${encodeURIComponent(value)}` : `${key}=${value}`);
+    }
+  }
+  return pairs.join('&');
+};
+
+/**
+ * Decodes an event body, base64 encoded bodies are decoded with decodeRequestBody
+ */
+const toRequestBody = (
+  body: string | null | undefined,
+  isBase64Encoded: boolean | undefined,
+  contentType?: string | string[],
+): string | Buffer | undefined => {
+  if (!body) {
+    return undefined;
+  }
+  return isBase64Encoded ? decodeRequestBody(Buffer.from(body, 'base64'), contentType) : body;
+};
+
+/**
+ * Converts an API Gateway REST API (payload format 1.0) proxy event into a Request
+ *
+ * The path of the event is relative to the stage, multi-value query parameters and headers are used when present
+ *
+ * @export
+ * @param {APIGatewayProxyEvent} event
+ * @returns {Request}
+ */
+export function fromAPIGatewayProxyEvent(event: APIGatewayProxyEvent): Request {
+  const headers = toRequestHeaders(event.headers, event.multiValueHeaders);
+  const body = toRequestBody(event.body, event.isBase64Encoded, headers['content-type']);
+  return {
+    method: event.httpMethod.toLowerCase(),
+    path: event.path,
+    query: toQueryString(event.queryStringParameters, event.multiValueQueryStringParameters, true),
+    headers,
+    ...(body !== undefined ? { body } : {}),
+  };
+}
+
+/**
+ * Converts an API Gateway HTTP API (payload format 2.0) proxy event into a Request
+ *
+ * The stage prefix is stripped from the path for named stages, and the cookies of the event are joined into a cookie
+ * header
+ *
+ * @export
+ * @param {APIGatewayProxyEventV2} event
+ * @returns {Request}
+ */
+export function fromAPIGatewayProxyEventV2(event: APIGatewayProxyEventV2): Request {
+  const headers = toRequestHeaders(event.headers);
+  if (event.cookies?.length) {
+    headers['cookie'] = event.cookies.join('; ');
+  }
+
+  let path = event.rawPath;
+  const stage = event.requestContext?.stage;
+  if (stage && stage !== '$default' && (path === `/${stage}` || path.startsWith(`/${stage}/`))) {
+    path = path.slice(stage.length + 1) || '/';
+  }
+
+  const body = toRequestBody(event.body, event.isBase64Encoded, headers['content-type']);
+  return {
+    method: event.requestContext.http.method.toLowerCase(),
+    path,
+    query: event.rawQueryString || '',
+    headers,
+    ...(body !== undefined ? { body } : {}),
+  };
+}
+
+/**
+ * Converts an Application Load Balancer event into a Request
+ *
+ * Multi-value query parameters and headers are used when enabled for the target group
+ *
+ * @export
+ * @param {ALBEvent} event
+ * @returns {Request}
+ */
+export function fromALBEvent(event: ALBEvent): Request {
+  const headers = toRequestHeaders(event.headers, event.multiValueHeaders);
+  const body = toRequestBody(event.body, event.isBase64Encoded, headers['content-type']);
+  return {
+    method: event.httpMethod.toLowerCase(),
+    path: event.path,
+    query: toQueryString(event.queryStringParameters, event.multiValueQueryStringParameters, false),
+    headers,
+    ...(body !== undefined ? { body } : {}),
+  };
+}
+
+/**
+ * Converts a Lambda event of any supported type into a Request
+ *
+ * @export
+ * @param {LambdaEvent} event
+ * @returns {Request}
+ */
+export function fromLambdaEvent(event: LambdaEvent): Request {
+  switch (getLambdaEventType(event)) {
+    case 'v2':
+      return fromAPIGatewayProxyEventV2(event as APIGatewayProxyEventV2);
+    case 'alb':
+      return fromALBEvent(event as ALBEvent);
+    default:
+      return fromAPIGatewayProxyEvent(event as APIGatewayProxyEvent);
+  }
+}
+
+/**
+ * Encodes a serialized body for a Lambda result, Buffers are base64 encoded
+ */
+const toResultBody = (body: SerializedResponse['body']): Pick<APIGatewayProxyResult, 'body' | 'isBase64Encoded'> =>
+  Buffer.isBuffer(body)
+    ? { body: body.toString('base64'), isBase64Encoded: true }
+    : { body: body ?? '', isBase64Encoded: false };
+
+/**
+ * Splits serialized headers into single-value and multi-value headers
+ */
+const splitHeaders = (headers: SerializedResponse['headers']) => {
+  const single: { [header: string]: string } = {};
+  const multi: { [header: string]: string[] } = {};
+  for (const [header, value] of Object.entries(headers)) {
+    if (Array.isArray(value)) {
+      multi[header] = value;
+    } else {
+      single[header] = value;
+    }
+  }
+  return { single, multi };
+};
+
+/**
+ * Converts a handler return value into an API Gateway REST API (payload format 1.0) proxy result
+ *
+ * Headers with multiple values, i.e. set-cookie, are returned as multiValueHeaders
+ *
+ * @export
+ * @param {*} result - handler return value
+ * @returns {APIGatewayProxyResult}
+ */
+export function toAPIGatewayProxyResult(result: any): APIGatewayProxyResult {
+  const { statusCode, headers, body } = serializeResponse(toOperationResponse(result));
+  const { single, multi } = splitHeaders(headers);
+  return {
+    statusCode,
+    headers: single,
+    ...(Object.keys(multi).length ? { multiValueHeaders: multi } : {}),
+    ...toResultBody(body),
+  };
+}
+
+/**
+ * Converts a handler return value into an API Gateway HTTP API (payload format 2.0) proxy result
+ *
+ * Set-Cookie headers are returned as cookies, other headers with multiple values are joined with commas
+ *
+ * @export
+ * @param {*} result - handler return value
+ * @returns {APIGatewayProxyResultV2}
+ */
+export function toAPIGatewayProxyResultV2(result: any): APIGatewayProxyResultV2 {
+  const { statusCode, headers, body } = serializeResponse(toOperationResponse(result));
+  const { 'set-cookie': setCookie, ...rest } = headers;
+  const responseHeaders: { [header: string]: string } = {};
+  for (const [header, value] of Object.entries(rest)) {
+    responseHeaders[header] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return {
+    statusCode,
+    headers: responseHeaders,
+    ...(setCookie !== undefined ? { cookies: _.castArray(setCookie) } : {}),
+    ...toResultBody(body),
+  };
+}
+
+/**
+ * Converts a handler return value into an Application Load Balancer result
+ *
+ * ALB only accepts multiValueHeaders when multi-value headers are enabled for the target group, so all headers are
+ * returned as multiValueHeaders when set, and as single-value headers otherwise
+ *
+ * @export
+ * @param {*} result - handler return value
+ * @param {boolean} [multiValueHeaders] - whether multi-value headers are enabled for the target group
+ * @returns {ALBResult}
+ */
+export function toALBResult(result: any, multiValueHeaders?: boolean): ALBResult {
+  const { statusCode, headers, body } = serializeResponse(toOperationResponse(result));
+  const response: ALBResult = {
+    statusCode,
+    statusDescription: `${statusCode} ${STATUS_CODES[statusCode] || ''}`.trim(),
+    ...toResultBody(body),
+  };
+  if (multiValueHeaders) {
+    response.multiValueHeaders = {};
+    for (const [header, value] of Object.entries(headers)) {
+      response.multiValueHeaders[header] = _.castArray(value);
+    }
+  } else {
+    response.headers = {};
+    for (const [header, value] of Object.entries(headers)) {
+      // a single-value set-cookie header can only hold one cookie, keep the last one
+      response.headers[header] = Array.isArray(value)
+        ? header === 'set-cookie'
+          ? _.last(value)
+          : value.join(', ')
+        : value;
+    }
+  }
+  return response;
+}
+
+/**
+ * Creates a Lambda handler for an OpenAPIBackend instance
+ *
+ * API Gateway REST API (v1), HTTP API (v2) and ALB events are told apart by their shape, and handler return values are
+ * converted into the matching result. The event and Lambda context are passed to handlers after the api context.
+ * Results already shaped as Lambda results, i.e. with isBase64Encoded set, are returned as-is.
+ *
+ * @export
+ * @param {OpenAPIBackend} api
+ * @returns {LambdaHandler}
+ */
+export function createLambdaHandler<D extends Document = Document>(api: OpenAPIBackend<D>): LambdaHandler {
+  return async (event, context, ...args) => {
+    const result = await api.handleRequest(fromLambdaEvent(event), event, context, ...args);
+    if (typeof result?.isBase64Encoded === 'boolean') {
+      return result;
+    }
+    switch (getLambdaEventType(event)) {
+      case 'v2':
+        return toAPIGatewayProxyResultV2(result);
+      case 'alb':
+        return toALBResult(result, !!event.multiValueHeaders);
+      default:
+        return toAPIGatewayProxyResult(result);
+    }
+  };
+}
@@ -0,0 +1,163 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAPIBackend } from '../backend';
+import { OpenAPIV3_1 } from 'openapi-types';
+
+const definition: OpenAPIV3_1.Document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'api',
+    version: '1.0.0',
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'getPets',
+        parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+        responses: { 200: { description: 'ok' } },
+      },
+      post: {
+        operationId: 'createPet',
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+            },
+          },
+        },
+        responses: { 201: { description: 'created' } },
+      },
+    },
+    '/pets/{id}/image': {
+      put: {
+        operationId: 'replacePetImage',
+        requestBody: { content: { 'image/png': { schema: { type: 'string', format: 'binary' } } } },
+        responses: { 200: { description: 'ok' } },
+      },
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+    },
+    '/pets/{id}': {
+      get: {
+        operationId: 'getPetById',
+        responses: { 200: { description: 'ok' } },
+      },
+      put: {
+        operationId: 'replacePetById',
+        responses: { 204: { description: 'replaced' } },
+      },
+      delete: {
+        operationId: 'deletePetById',
+        responses: { 204: { description: 'deleted' } },
+      },
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+    },
+  },
+};
+
+describe('node adapter', () => {
+  const api = new OpenAPIBackend({
+    definition,
+    handlers: {
+      getPets: (c) => c.reply(200, c.request.query, { 'Set-Cookie': ['a=1', 'b=2'] }),
+      createPet: (c) => c.reply(201, c.request.requestBody),
+      getPetById: () => {
+        throw new Error('connect ECONNREFUSED 10.0.0.1:5432');
+      },
+      deletePetById: (c, req: http.IncomingMessage, res: http.ServerResponse) => {
+        // handlers may also write to the ServerResponse themselves
+        res.statusCode = 204;
+        res.end();
+      },
+      replacePetById: (c) => c.reply(204, { deleted: false }),
+      replacePetImage: (c) => c.reply(200, c.request.requestBody, { 'content-type': 'image/png' }),
+      validationFail: (c) => c.reply(400, { errors: c.validation.errors?.length }),
+    },
+  });
+
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer(api.createNodeListener({ bodyLimit: 100 }));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('handles GET /pets?limit=10', async () => {
+    const res = await fetch(`${url}/pets?limit=10`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/json');
+    expect(res.headers.getSetCookie()).toEqual(['a=1', 'b=2']);
+    expect(await res.json()).toEqual({ limit: '10' });
+  });
+
+  test('handles POST /pets with a json body', async () => {
+    const res = await fetch(`${url}/pets`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ name: 'Garfield' }),
+    });
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({ name: 'Garfield' });
+  });
+
+  test('handles POST /pets with an invalid body', async () => {
+    const res = await fetch(`${url}/pets`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ errors: 1 });
+  });
+
+  test('responds 413 to bodies over the limit', async () => {
+    const res = await fetch(`${url}/pets`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ name: 'Garfield'.repeat(20) }),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  test('keeps the bytes of binary bodies', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0x00]);
+    const res = await fetch(`${url}/pets/1/image`, {
+      method: 'PUT',
+      headers: { 'content-type': 'image/png' },
+      body: png,
+    });
+    expect(res.status).toBe(200);
+    expect(Buffer.from(await res.arrayBuffer())).toEqual(png);
+  });
+
+  test('does not overwrite responses written by handlers', async () => {
+    const res = await fetch(`${url}/pets/1`, { method: 'DELETE' });
+    expect(res.status).toBe(204);
+  });
+
+  test('drops the body of statuses without content', async () => {
+    const res = await fetch(`${url}/pets/1`, { method: 'PUT' });
+    expect(res.status).toBe(204);
+    expect(res.headers.get('content-type')).toBe(null);
+    expect(await res.text()).toBe('');
+  });
+
+  test('responds 404 to unmatched routes without notFound handler', async () => {
+    const res = await fetch(`${url}/unknown`);
+    expect(res.status).toBe(404);
+  });
+
+  test('responds 500 without the message of errors thrown by handlers', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const res = await fetch(`${url}/pets/1`);
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ err: 'Internal Server Error' });
+    expect(warn).toBeCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,159 @@
+// library code, any is fine
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { OpenAPIBackend, Document } from '../backend';
+import type { Request } from '../router';
+import { HttpError, PayloadTooLargeError } from '../errors';
+import { decodeRequestBody, serializeResponse, toOperationResponse } from './common';
+
+/**
+ * Options for the node:http request listener
+ *
+ * @export
+ * @interface NodeListenerOptions
+ */
+export interface NodeListenerOptions {
+  /**
+   * maximum size of request bodies in bytes, larger bodies are rejected with 413 Payload Too Large (default: 1mb)
+   */
+  bodyLimit?: number;
+}
+
+/**
+ * A request listener for node:http servers, i.e. http.createServer(listener)
+ */
+export type NodeListener = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+const DEFAULT_BODY_LIMIT = 1024 * 1024;
+
+/**
+ * Reads the body of an IncomingMessage, rejecting with PayloadTooLargeError once it exceeds the limit
+ *
+ * @export
+ * @param {IncomingMessage} req
+ * @param {number} [limit] - maximum body size in bytes (default: 1mb)
+ * @returns {Promise<Buffer>}
+ */
+export function readNodeBody(req: IncomingMessage, limit = DEFAULT_BODY_LIMIT): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const declaredLength = Number(req.headers['content-length']);
+    if (declaredLength > limit) {
+      return reject(new PayloadTooLargeError(limit));
+    }
+
+    const chunks: Buffer[] = [];
+    let length = 0;
+    req.on('data', (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > limit) {
+        req.removeAllListeners('data');
+        req.resume();
+        return reject(new PayloadTooLargeError(limit));
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Maps the method, url and headers of a node:http IncomingMessage to a Request, without reading its body
+ *
+ * @export
+ * @param {IncomingMessage} req
+ * @returns {Request}
+ */
+export function fromNodeRequestHead(req: IncomingMessage): Request {
+  const [path, query = ''] = (req.url || '/').split(/\?(.*)/s);
+  const headers: Request['headers'] = {};
+  for (const [header, value] of Object.entries(req.headers)) {
+    if (value !== undefined) {
+      headers[header] = value;
+    }
+  }
+  return {
+    method: (req.method || 'get').toLowerCase(),
+    path,
+    query,
+    headers,
+  };
+}
+
+/**
+ * Converts a node:http IncomingMessage into a Request, reading and decoding its body
+ *
+ * @export
+ * @param {IncomingMessage} req
+ * @param {NodeListenerOptions} [opts]
+ * @returns {Promise<Request>}
+ */
+export async function fromNodeRequest(req: IncomingMessage, opts: NodeListenerOptions = {}): Promise<Request> {
+  const request = fromNodeRequestHead(req);
+  const body = await readNodeBody(req, opts.bodyLimit);
+  return {
+    ...request,
+    ...(body.length ? { body: decodeRequestBody(body, request.headers['content-type']) } : {}),
+  };
+}
+
+/**
+ * Writes a handler return value to a node:http ServerResponse
+ *
+ * Nothing is written if the handler already started or ended the response itself
+ *
+ * @export
+ * @param {ServerResponse} res
+ * @param {*} result - handler return value
+ */
+export function writeNodeResponse(res: ServerResponse, result: any): void {
+  if (res.headersSent || res.writableEnded) {
+    return;
+  }
+  const { statusCode, headers, body } = serializeResponse(toOperationResponse(result));
+  res.statusCode = statusCode;
+  for (const [header, value] of Object.entries(headers)) {
+    res.setHeader(header, value);
+  }
+  res.end(body);
+}
+
+/**
+ * Creates a node:http request listener for an OpenAPIBackend instance
+ *
+ * The IncomingMessage and ServerResponse are passed to handlers after the context. Errors thrown while handling the
+ * request are responded with the status code and message of the HttpError, i.e. 404 for NotFoundError. Other errors
+ * are responded with a generic 500 Internal Server Error
+ *
+ * @export
+ * @param {OpenAPIBackend} api
+ * @param {NodeListenerOptions} [opts]
+ * @returns {NodeListener}
+ */
+export function createNodeListener<D extends Document = Document>(
+  api: OpenAPIBackend<D>,
+  opts: NodeListenerOptions = {},
+): NodeListener {
+  return async (req, res) => {
+    try {
+      const request = await fromNodeRequest(req, opts);
+      writeNodeResponse(res, await api.handleRequest(request, req, res));
+    } catch (err) {
+      // only the messages of HttpErrors are meant for the client
+      if (!(err instanceof HttpError)) {
+        console.warn(err);
+      }
+      if (!res.headersSent) {
+        writeNodeResponse(
+          res,
+          err instanceof HttpError
+            ? { statusCode: err.statusCode, body: { err: err.message } }
+            : { statusCode: 500, body: { err: 'Internal Server Error' } },
+        );
+      } else if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+}
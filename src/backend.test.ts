@@ -1,13 +1,16 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import * as path from 'path';
-import { OpenAPIBackend, Context } from './backend';
+import { OpenAPIBackend, Context, HookName } from './backend';
+import { HttpError, MethodNotAllowedError, NotFoundError, NotImplementedError } from './errors';
+import { DefinitionValidationError } from './definition';
 import type { Request } from './router';
 import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
 
 const testsDir = path.join(__dirname, '..', '__tests__');
 const examplePetAPIJSON = path.join(testsDir, 'resources', 'example-pet-api.openapi.json');
 const examplePetAPIYAML = path.join(testsDir, 'resources', 'example-pet-api.openapi.yml');
+const invalidAPIYAML = path.join(testsDir, 'resources', 'invalid.openapi.yml');
 
 const responses: OpenAPIV3.ResponsesObject & OpenAPIV3_1.ResponsesObject = {
   200: { description: 'ok' },
@@ -71,6 +74,28 @@ describe('OpenAPIBackend', () => {
                 type: 'integer',
               },
             },
+            {
+              name: 'X-Page-Size',
+              in: 'header',
+              schema: {
+                type: 'integer',
+              },
+            },
+            {
+              name: 'X-Ids',
+              in: 'header',
+              schema: {
+                type: 'array',
+                items: { type: 'integer' },
+              },
+            },
+            {
+              name: 'visits',
+              in: 'cookie',
+              schema: {
+                type: 'integer',
+              },
+            },
           ],
         },
         put: {
@@ -157,6 +182,34 @@ describe('OpenAPIBackend', () => {
     expect(api.router.getOperations()).toHaveLength(0);
   });
 
+  test('validates OpenAPI 3.1 documents against the OpenAPI 3.1 meta-schema', async () => {
+    const webhooksOnly: any = {
+      ...meta,
+      info: { ...meta.info, license: { name: 'MIT', identifier: 'MIT' } },
+      webhooks: { newPet: { post: { operationId: 'newPet', responses } } },
+    };
+    const api = new OpenAPIBackend({ definition: webhooksOnly, strict: true });
+    await api.init();
+    expect(api.initalized).toEqual(true);
+  });
+
+  test('throws a DefinitionValidationError locating errors in the document file in strict mode', async () => {
+    const api = new OpenAPIBackend({ definition: invalidAPIYAML, strict: true });
+    const error: DefinitionValidationError = await api.init().catch((err) => err);
+    expect(error).toBeInstanceOf(DefinitionValidationError);
+    expect(error.errors).toEqual([
+      { pointer: '/info/license', message: 'must NOT be valid', schemaKeyword: 'not', file: invalidAPIYAML, line: 5 },
+      {
+        pointer: '/paths/~1pets/get/parameters/1',
+        message: "must have required property 'required'",
+        schemaKeyword: 'required',
+        file: invalidAPIYAML,
+        line: 18,
+      },
+    ]);
+    expect(error.message).toContain(`#/info/license: must NOT be valid (${invalidAPIYAML}:5)`);
+  });
+
   test('copies objects passed to constructor', async () => {
     // Create an OpenAPIBackend and pass handlers and securityHandlers which must not be mutated.
     // This avoids overwriting shared default handlers if creating multiple instances of OpenAPIBackend.
@@ -308,6 +361,227 @@ describe('OpenAPIBackend', () => {
         expect(dummyHandler).toBeCalledTimes(1);
         expect(res).toBe('dummyResponse');
       });
+
+      describe('with request body content types', () => {
+        const definitionWithRequestBody: OpenAPIV3_1.Document = {
+          ...definition,
+          paths: {
+            ...definition.paths,
+            '/pets': {
+              ...definition.paths?.['/pets'],
+              post: {
+                operationId: 'createPet',
+                responses,
+                requestBody: {
+                  content: {
+                    'application/json': { schema: { type: 'object' } },
+                    'text/*': { schema: { type: 'string' } },
+                  },
+                },
+              },
+            },
+          },
+        };
+
+        test('handles POST /pets request with text/plain body with operation handler', async () => {
+          const api = new OpenAPIBackend({ definition: definitionWithRequestBody });
+          const dummyHandler = jest.fn(() => 'dummyResponse');
+          api.register('createPet', dummyHandler);
+          api.register('unsupportedMediaType', () => 'unsupportedMediaType');
+          await api.init();
+
+          const request = {
+            method: 'post',
+            path: '/pets',
+            headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+            body: 'Garfield',
+          };
+          const res = await api.handleRequest(request);
+          expect(dummyHandler).toBeCalledTimes(1);
+          expect(res).toBe('dummyResponse');
+        });
+
+        test('handles POST /pets request with application/xml body with unsupportedMediaType handler', async () => {
+          const api = new OpenAPIBackend({ definition: definitionWithRequestBody });
+          const dummyHandler = jest.fn(() => 'dummyResponse');
+          api.register('createPet', () => 'createPet');
+          api.register('unsupportedMediaType', dummyHandler);
+          await api.init();
+
+          const request = {
+            method: 'post',
+            path: '/pets',
+            headers: { 'Content-Type': 'application/xml' },
+            body: '<Pet/>',
+          };
+          const res = await api.handleRequest(request);
+          expect(dummyHandler).toBeCalledTimes(1);
+          expect(res).toBe('dummyResponse');
+        });
+
+        test('handles POST /pets request with application/xml body with validationFail handler if unsupportedMediaType is not registered', async () => {
+          const api = new OpenAPIBackend({ definition: definitionWithRequestBody });
+          const dummyHandler = jest.fn((c) => c.validation.errors[0].keyword);
+          api.register('createPet', () => 'createPet');
+          api.register('validationFail', dummyHandler);
+          await api.init();
+
+          const request = {
+            method: 'post',
+            path: '/pets',
+            headers: { 'Content-Type': 'application/xml' },
+            body: '<Pet/>',
+          };
+          const res = await api.handleRequest(request);
+          expect(dummyHandler).toBeCalledTimes(1);
+          expect(res).toBe('unsupportedMediaType');
+        });
+      });
+
+      describe('with response content types', () => {
+        const definitionWithResponseContent: OpenAPIV3_1.Document = {
+          ...definition,
+          paths: {
+            ...definition.paths,
+            '/pets': {
+              ...definition.paths?.['/pets'],
+              get: {
+                operationId: 'getPets',
+                responses: {
+                  200: {
+                    description: 'ok',
+                    content: {
+                      'application/json': { example: [{ name: 'Garfield' }] },
+                      'text/csv': { example: 'name\nGarfield' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        };
+        const mockHandler = (c: Context) =>
+          c.api.mockResponseForOperation(c.operation.operationId as string, { mediaType: c.responseMediaType }).mock;
+
+        test('handles GET /pets request with the negotiated media type', async () => {
+          const api = new OpenAPIBackend({ definition: definitionWithResponseContent });
+          api.register('getPets', mockHandler);
+          await api.init();
+
+          const request = {
+            method: 'get',
+            path: '/pets',
+            headers: { Accept: 'application/json;q=0.5, text/*' },
+          };
+          const res = await api.handleRequest(request);
+          expect(res).toBe('name\nGarfield');
+        });
+
+        test('handles GET /pets request without accept header with the first media type', async () => {
+          const api = new OpenAPIBackend({ definition: definitionWithResponseContent });
+          const dummyHandler = jest.fn((c) => c.responseMediaType);
+          api.register('getPets', dummyHandler);
+          await api.init();
+
+          const request = {
+            method: 'get',
+            path: '/pets',
+            headers: {},
+          };
+          const res = await api.handleRequest(request);
+          expect(res).toBe('application/json');
+        });
+
+        test('handles GET /pets request with unacceptable media type with notAcceptable handler', async () => {
+          const api = new OpenAPIBackend({ definition: definitionWithResponseContent });
+          const dummyHandler = jest.fn(() => 'dummyResponse');
+          api.register('getPets', mockHandler);
+          api.register('notAcceptable', dummyHandler);
+          await api.init();
+
+          const request = {
+            method: 'get',
+            path: '/pets',
+            headers: { accept: 'application/xml, text/csv;q=0' },
+          };
+          const res = await api.handleRequest(request);
+          expect(dummyHandler).toBeCalledTimes(1);
+          expect(res).toBe('dummyResponse');
+        });
+
+        test('handles GET /pets request accepting only an error media type with notAcceptable handler', async () => {
+          const api = new OpenAPIBackend({
+            definition: {
+              ...definition,
+              paths: {
+                '/pets': {
+                  get: {
+                    operationId: 'getPets',
+                    responses: {
+                      200: { description: 'ok', content: { 'application/json': {} } },
+                      default: { description: 'error', content: { 'application/problem+json': {} } },
+                    },
+                  },
+                },
+              },
+            },
+          });
+          const dummyHandler = jest.fn(() => 'dummyResponse');
+          api.register('getPets', mockHandler);
+          api.register('notAcceptable', dummyHandler);
+          await api.init();
+
+          const request = {
+            method: 'get',
+            path: '/pets',
+            headers: { accept: 'application/problem+json' },
+          };
+          const res = await api.handleRequest(request);
+          expect(dummyHandler).toBeCalledTimes(1);
+          expect(res).toBe('dummyResponse');
+        });
+
+        test('handles GET /pets request with unacceptable media type with operation handler if notAcceptable is not registered', async () => {
+          const api = new OpenAPIBackend({ definition: definitionWithResponseContent });
+          api.register('getPets', mockHandler);
+          await api.init();
+
+          const request = {
+            method: 'get',
+            path: '/pets',
+            headers: { accept: 'application/xml' },
+          };
+          const res = await api.handleRequest(request);
+          expect(res).toEqual([{ name: 'Garfield' }]);
+        });
+      });
+
+      test('handles GET /v2/pets/1 request relative to servers with server variables with useServers', async () => {
+        const api = new OpenAPIBackend({
+          definition: {
+            ...definition,
+            servers: [{ url: 'https://api.example.com/{version}', variables: { version: { default: 'v1' } } }],
+          },
+          useServers: true,
+        });
+        const dummyHandler = jest.fn((c: Context) => c.request);
+        api.register('getPetById', dummyHandler);
+        await api.init();
+
+        const request = {
+          method: 'get',
+          path: '/v2/pets/1',
+          headers: {},
+        };
+        const res = await api.handleRequest(request);
+        expect(dummyHandler).toBeCalledTimes(1);
+        expect(res.params).toEqual({ id: '1' });
+        expect(res.server).toEqual({
+          url: 'https://api.example.com/{version}',
+          basePath: '/v2',
+          variables: { version: 'v2' },
+        });
+      });
     });
 
     describe('auth', () => {
@@ -516,6 +790,30 @@ describe('OpenAPIBackend', () => {
       expect(res.query).toStrictEqual({ breed: 'corgi', age: 5 });
     });
 
+    test('coerces header and cookie types', async () => {
+      const api = new OpenAPIBackend({ definition, coerceTypes: true });
+      const dummyHandler = jest.fn((c) => c.request);
+      api.register('getPetById', dummyHandler);
+      await api.init();
+
+      const request = {
+        method: 'get',
+        path: '/pets/1',
+        headers: {
+          'X-Page-Size': '10',
+          'X-Ids': '1,2,3',
+          cookie: 'visits=3; theme=dark',
+        },
+      };
+
+      const res = await api.handleRequest(request);
+      expect(dummyHandler).toHaveBeenCalledTimes(1);
+
+      expect(res.headers['x-page-size']).toBe(10);
+      expect(res.headers['x-ids']).toStrictEqual([1, 2, 3]);
+      expect(res.cookies).toStrictEqual({ visits: 3, theme: 'dark' });
+    });
+
     test('coerces query types disabled by default', async () => {
       const api = new OpenAPIBackend({ definition });
       const dummyHandler = jest.fn((c) => c.request);
@@ -537,6 +835,344 @@ describe('OpenAPIBackend', () => {
 
       expect(res.query).toStrictEqual({ breed: 'corgi', age: '5' });
     });
+
+    test('coerces header and cookie types disabled by default', async () => {
+      const api = new OpenAPIBackend({ definition });
+      const dummyHandler = jest.fn((c) => c.request);
+      api.register('getPetById', dummyHandler);
+      await api.init();
+
+      const request = {
+        method: 'get',
+        path: '/pets/1',
+        headers: {
+          'X-Page-Size': '10',
+          cookie: 'visits=3',
+        },
+      };
+
+      const res = await api.handleRequest(request);
+      expect(dummyHandler).toHaveBeenCalledTimes(1);
+
+      expect(res.headers['x-page-size']).toBe('10');
+      expect(res.cookies).toEqual({ visits: '3' });
+    });
+  });
+
+  describe('response validation', () => {
+    const responseDefinition: OpenAPIV3_1.Document = {
+      ...meta,
+      paths: {
+        '/pets/{id}': {
+          get: {
+            operationId: 'getPetById',
+            responses: {
+              200: {
+                description: 'ok',
+                headers: {
+                  'X-Rate-Limit': { schema: { type: 'integer' } },
+                },
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      properties: { name: { type: 'string' } },
+                      required: ['name'],
+                    },
+                  },
+                },
+              },
+            },
+          },
+          parameters: [pathId],
+        },
+      },
+    };
+    const request = { method: 'get', path: '/pets/1', headers: {} };
+
+    test('passes valid responses through', async () => {
+      const api = new OpenAPIBackend({ definition: responseDefinition, validateResponses: true });
+      const responseValidationFail = jest.fn(() => 'responseValidationFail');
+      api.register('getPetById', () => ({
+        statusCode: 200,
+        headers: { 'X-Rate-Limit': '10' },
+        body: { name: 'Garfield' },
+      }));
+      api.register('responseValidationFail', responseValidationFail);
+      await api.init();
+
+      const res = await api.handleRequest(request);
+      expect(responseValidationFail).not.toBeCalled();
+      expect(res).toEqual({ statusCode: 200, headers: { 'X-Rate-Limit': '10' }, body: { name: 'Garfield' } });
+    });
+
+    test('calls responseValidationFail handler with invalid response body', async () => {
+      const api = new OpenAPIBackend({ definition: responseDefinition, validateResponses: true });
+      api.register('getPetById', () => ({ statusCode: 200, body: { age: 3 } }));
+      api.register('responseValidationFail', (c) => c.responseValidation?.errors?.[0]?.params);
+      await api.init();
+
+      const res = await api.handleRequest(request);
+      expect(res).toEqual({ missingProperty: 'name' });
+    });
+
+    test('calls responseValidationFail handler with invalid response headers', async () => {
+      const api = new OpenAPIBackend({ definition: responseDefinition, validateResponses: true });
+      api.register('getPetById', () => ({
+        statusCode: 200,
+        headers: { 'X-Rate-Limit': 'lots' },
+        body: { name: 'Garfield' },
+      }));
+      api.register('responseValidationFail', (c) => [c.response.statusCode, c.responseValidation?.errors?.length]);
+      await api.init();
+
+      const res = await api.handleRequest(request);
+      expect(res).toEqual([200, 1]);
+    });
+
+    test('logs invalid responses without responseValidationFail handler', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const api = new OpenAPIBackend({ definition: responseDefinition, validateResponses: true });
+      api.register('getPetById', () => ({ statusCode: 200, body: {} }));
+      await api.init();
+
+      const res = await api.handleRequest(request);
+      expect(res).toEqual({ statusCode: 200, body: {} });
+      expect(warn).toBeCalledWith(expect.stringContaining('Response validation failed for getPetById'));
+      warn.mockRestore();
+    });
+
+    test('does not validate responses that are not OperationResponses', async () => {
+      const api = new OpenAPIBackend({ definition: responseDefinition, validateResponses: true });
+      const responseValidationFail = jest.fn(() => 'responseValidationFail');
+      api.register('getPetById', () => 'raw response');
+      api.register('responseValidationFail', responseValidationFail);
+      await api.init();
+
+      const res = await api.handleRequest(request);
+      expect(responseValidationFail).not.toBeCalled();
+      expect(res).toBe('raw response');
+    });
+
+    test('validates responses only when predicate returns true', async () => {
+      const api = new OpenAPIBackend({
+        definition: responseDefinition,
+        validateResponses: (c) => c.request.params.id !== '1',
+      });
+      api.register('getPetById', () => ({ statusCode: 200, body: {} }));
+      api.register('responseValidationFail', () => 'responseValidationFail');
+      await api.init();
+
+      expect(await api.handleRequest(request)).toEqual({ statusCode: 200, body: {} });
+      expect(await api.handleRequest({ ...request, path: '/pets/2' })).toBe('responseValidationFail');
+    });
+
+    test('passes validated OperationResponses to postResponseHandler', async () => {
+      const api = new OpenAPIBackend({ definition: responseDefinition, validateResponses: true });
+      api.register('getPetById', (c) => c.reply(200, {}));
+      api.register('postResponseHandler', (c) => c.reply(c.responseValidation?.valid ? 200 : 502, c.response.body));
+      await api.init();
+
+      const res = await api.handleRequest(request);
+      expect(res).toEqual({ statusCode: 502, headers: { 'content-type': 'application/json' }, body: {} });
+    });
+
+    test('reports status codes the operation does not declare', async () => {
+      const api = new OpenAPIBackend({ definition: responseDefinition, validateResponses: true });
+      api.register('responseValidationFail', (c) => c.responseValidation?.errors);
+      await api.init();
+
+      api.register('getPetById', (c) => c.reply(418, { name: 'teapot' }));
+      expect(await api.handleRequest(request)).toEqual([
+        {
+          keyword: 'undeclaredStatus',
+          instancePath: '',
+          schemaPath: '#/responses',
+          params: { statusCode: 418 },
+          message: 'status code 418 is not declared for the operation',
+        },
+      ]);
+
+      const definition: OpenAPIV3_1.Document = {
+        ...responseDefinition,
+        paths: {
+          '/pets/{id}': {
+            get: {
+              ...responseDefinition.paths['/pets/{id}'].get,
+              responses: { ...responseDefinition.paths['/pets/{id}'].get.responses, default: { description: 'error' } },
+            },
+            parameters: [pathId],
+          },
+        },
+      };
+      const withDefault = new OpenAPIBackend({ definition, validateResponses: true });
+      const responseValidationFail = jest.fn();
+      withDefault.register('getPetById', (c) => c.reply(500, { err: 'oops' }));
+      withDefault.register('responseValidationFail', responseValidationFail);
+      await withDefault.init();
+      await withDefault.handleRequest(request);
+      expect(responseValidationFail).not.toBeCalled();
+    });
+
+    test('validates replies without content against responses without content', async () => {
+      const definition: OpenAPIV3_1.Document = {
+        ...responseDefinition,
+        paths: {
+          '/pets/{id}': { delete: { operationId: 'deletePetById', responses: { 204: { description: 'ok' } } } },
+        },
+      };
+      const api = new OpenAPIBackend({ definition, validateResponses: true });
+      const responseValidationFail = jest.fn(() => 'responseValidationFail');
+      api.register('deletePetById', (c) => c.reply(204));
+      api.register('responseValidationFail', responseValidationFail);
+      await api.init();
+
+      const res = await api.handleRequest({ ...request, method: 'delete' });
+      expect(responseValidationFail).not.toBeCalled();
+      expect(res).toEqual({ statusCode: 204, headers: {} });
+    });
+
+    test('validates responses against the schema of their content-type', async () => {
+      const definition: OpenAPIV3_1.Document = {
+        ...responseDefinition,
+        paths: {
+          '/pets/{id}': {
+            get: {
+              ...responseDefinition.paths['/pets/{id}'].get,
+              responses: {
+                ...responseDefinition.paths['/pets/{id}'].get.responses,
+                400: {
+                  description: 'bad request',
+                  content: {
+                    'application/problem+json': {
+                      schema: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] },
+                    },
+                  },
+                },
+              },
+            },
+            parameters: [pathId],
+          },
+        },
+      };
+      const api = new OpenAPIBackend({ definition, validateResponses: true });
+      api.register('responseValidationFail', (c) => c.responseValidation?.errors?.[0]?.params);
+      await api.init();
+
+      const problemHeaders = { 'content-type': 'application/problem+json' };
+      api.register('getPetById', (c) => c.reply(400, { nope: 1 }, problemHeaders));
+      expect(await api.handleRequest(request)).toEqual({ missingProperty: 'title' });
+
+      api.register('getPetById', (c) => c.reply(400, { title: 'Bad Request' }, problemHeaders));
+      expect(await api.handleRequest(request)).toEqual({
+        statusCode: 400,
+        headers: problemHeaders,
+        body: { title: 'Bad Request' },
+      });
+    });
+
+    test('does not validate responses by default', async () => {
+      const api = new OpenAPIBackend({ definition: responseDefinition });
+      api.register('getPetById', () => ({ statusCode: 200, body: {} }));
+      api.register('responseValidationFail', () => 'responseValidationFail');
+      await api.init();
+
+      const res = await api.handleRequest(request);
+      expect(res).toEqual({ statusCode: 200, body: {} });
+    });
+  });
+
+  describe('context.reply', () => {
+    test('builds an OperationResponse', async () => {
+      const api = new OpenAPIBackend({ definition });
+      api.register('getPets', (c) => c.reply(201, { name: 'Garfield' }, { 'X-Request-Id': '1' }));
+      await api.init();
+
+      const res = await api.handleRequest({ method: 'get', path: '/pets', headers: {} });
+      expect(res).toEqual({ statusCode: 201, headers: { 'X-Request-Id': '1' }, body: { name: 'Garfield' } });
+    });
+
+    test('builds an OperationResponse without body', async () => {
+      const api = new OpenAPIBackend({ definition });
+      api.register('getPets', (c) => c.reply(204));
+      await api.init();
+
+      const res = await api.handleRequest({ method: 'get', path: '/pets', headers: {} });
+      expect(res).toEqual({ statusCode: 204, headers: {} });
+    });
+
+    test('sets content-type to the negotiated media type', async () => {
+      const api = new OpenAPIBackend({
+        definition: {
+          ...meta,
+          paths: {
+            '/pets': {
+              get: {
+                operationId: 'getPets',
+                responses: {
+                  200: { description: 'ok', content: { 'application/json': {}, 'text/csv': {} } },
+                },
+              },
+            },
+          },
+        },
+      });
+      api.register('getPets', (c) => c.reply(200, 'name'));
+      await api.init();
+
+      const res = await api.handleRequest({ method: 'get', path: '/pets', headers: { accept: 'text/csv' } });
+      expect(res).toEqual({ statusCode: 200, headers: { 'content-type': 'text/csv' }, body: 'name' });
+    });
+
+    test('sets content-type to a media type of the response for the status', async () => {
+      const api = new OpenAPIBackend({
+        definition: {
+          ...meta,
+          paths: {
+            '/pets': {
+              get: {
+                operationId: 'getPets',
+                responses: {
+                  200: { description: 'ok', content: { 'application/json': {} } },
+                  default: { description: 'error', content: { 'application/problem+json': {} } },
+                },
+              },
+            },
+          },
+        },
+      });
+      api.register('getPets', (c) =>
+        c.request.query.fail ? c.reply(400, { title: 'Bad Request' }) : c.reply(200, [{ name: 'Garfield' }]),
+      );
+      await api.init();
+
+      const headers = { accept: 'application/json, application/problem+json' };
+      const res = await api.handleRequest({ method: 'get', path: '/pets', headers });
+      expect(res).toEqual({
+        statusCode: 200,
+        headers: { 'content-type': 'application/json' },
+        body: [{ name: 'Garfield' }],
+      });
+
+      const errorRes = await api.handleRequest({ method: 'get', path: '/pets', query: { fail: 'true' }, headers });
+      expect(errorRes).toEqual({
+        statusCode: 400,
+        headers: { 'content-type': 'application/problem+json' },
+        body: { title: 'Bad Request' },
+      });
+    });
+
+    test('does not override content-type', async () => {
+      const api = new OpenAPIBackend({ definition });
+      api.register('getPets', (c) => {
+        c.responseMediaType = 'application/json';
+        return c.reply(200, '<Pet/>', { 'Content-Type': 'application/xml' });
+      });
+      await api.init();
+
+      const res = await api.handleRequest({ method: 'get', path: '/pets', headers: {} });
+      expect(res).toEqual({ statusCode: 200, headers: { 'Content-Type': 'application/xml' }, body: '<Pet/>' });
+    });
   });
 
   describe('.mockResponseForOperation', () => {
@@ -758,6 +1394,20 @@ describe('OpenAPIBackend', () => {
       expect(mock).toMatchObject([exampleGarfield]);
     });
 
+    test('mocks getPets OperationResponse', async () => {
+      const { paths } = mockDefinition;
+      paths['/pets'].get.responses = {
+        200: { $ref: '#/components/responses/SimplePetsListWithExample' },
+      };
+      await api.init();
+      const res = api.mockOperationResponse('getPets');
+      expect(res).toEqual({
+        statusCode: 200,
+        headers: { 'content-type': 'application/json' },
+        body: [exampleGarfield],
+      });
+    });
+
     test('mocks createPet with response schema', async () => {
       const { paths } = mockDefinition;
       paths['/pets'].post.responses = {
@@ -884,5 +1534,290 @@ describe('OpenAPIBackend', () => {
         'postResponseHandler',
       ]);
     });
+
+    test('should run hooks added with addHook in order with registered handlers', async () => {
+      api.addHook('preRouting', async () => void resultOrder.push('lastPreRoutingHook'), { order: 10 });
+      api.addHook('preRouting', async () => void resultOrder.push('firstPreRoutingHook'), { order: -10 });
+      api.addHook('preRouting', async () => void resultOrder.push('preRoutingHook'));
+      api.addHook('preOperation', async () => void resultOrder.push('preOperationHook'));
+      await api.handleRequest(request);
+
+      expect(resultOrder).toEqual([
+        'firstPreRoutingHook',
+        'preRoutingHandler',
+        'preRoutingHook',
+        'lastPreRoutingHook',
+        'postRoutingHandler',
+        'postSecurityHandler',
+        'preOperationHandler',
+        'preOperationHook',
+        'operationHandler',
+        'postResponseHandler',
+      ]);
+    });
+
+    test('should short-circuit the request when a hook returns a response', async () => {
+      api.addHook('postSecurity', () => ({ statusCode: 429 }), { order: -1 });
+      api.addHook('postSecurity', async () => void resultOrder.push('skippedHook'));
+      api.addHook('postResponse', (c) => void resultOrder.push(`postResponseHook ${c.response.statusCode}`), {
+        order: -1,
+      });
+      await api.handleRequest(request);
+
+      expect(resultOrder).toEqual([
+        'preRoutingHandler',
+        'postRoutingHandler',
+        'postResponseHook 429',
+        'postResponseHandler',
+      ]);
+    });
+
+    test('should replace the response when a postResponse hook returns a value', async () => {
+      delete api.handlers['postResponseHandler'];
+      api.register('getPets', () => ({ statusCode: 200, body: [] }));
+      api.addHook('postResponse', (c) => ({ ...c.response, headers: { 'x-hook': 'first' } }));
+      api.addHook('postResponse', (c) => ({ ...c.response, body: c.response.headers['x-hook'] }));
+
+      expect(await api.handleRequest(request)).toEqual({
+        statusCode: 200,
+        body: 'first',
+        headers: { 'x-hook': 'first' },
+      });
+    });
+
+    test('should run later postResponse hooks after a postResponse hook returns a value', async () => {
+      delete api.handlers['postResponseHandler'];
+      api.register('getPets', () => ({ statusCode: 200, body: [] }));
+      api.addHook('postResponse', (c) => ({ ...c.response, headers: { 'x-wrapped': 'true' } }), { order: 0 });
+      api.addHook('postResponse', (c) => void resultOrder.push(`audit ${c.response.headers['x-wrapped']}`), {
+        order: 10,
+      });
+
+      expect(await api.handleRequest(request)).toEqual({ statusCode: 200, body: [], headers: { 'x-wrapped': 'true' } });
+      expect(resultOrder).toContain('audit true');
+    });
+
+    test('should run postResponse hooks after a registered postResponseHandler', async () => {
+      api.register('getPets', () => ({ statusCode: 200, body: [] }));
+      api.register('postResponseHandler', (c) => {
+        resultOrder.push('postResponseHandler');
+        return { ...c.response, headers: { 'x-handler': 'registered' } };
+      });
+      api.addHook('postResponse', (c) => void resultOrder.push(`postResponseHook ${c.response.headers['x-handler']}`), {
+        order: 10,
+      });
+
+      expect(await api.handleRequest(request)).toEqual({
+        statusCode: 200,
+        body: [],
+        headers: { 'x-handler': 'registered' },
+      });
+      expect(resultOrder.slice(-2)).toEqual(['postResponseHandler', 'postResponseHook registered']);
+    });
+
+    test('should pass the response through postResponse hooks returning undefined', async () => {
+      delete api.handlers['postResponseHandler'];
+      api.register('getPets', () => ({ statusCode: 200, body: [] }));
+      api.addHook('postResponse', async () => void resultOrder.push('postResponseHook'));
+
+      expect(await api.handleRequest(request)).toEqual({ statusCode: 200, body: [] });
+      expect(resultOrder).toContain('postResponseHook');
+    });
+
+    test('should throw when adding an unknown hook', () => {
+      expect(() => api.addHook('preValidation' as HookName, () => undefined)).toThrow('Unknown hook preValidation');
+    });
+  });
+
+  describe('middleware', () => {
+    const definition: OpenAPIV3_1.Document = {
+      openapi: '3.1.0',
+      info: {
+        title: 'api',
+        version: '1.0.0',
+      },
+      paths: {
+        '/pets': {
+          get: {
+            operationId: 'getPets',
+            tags: ['pets'],
+            responses: { 200: { description: 'ok' } },
+          },
+        },
+        '/owners': {
+          get: {
+            operationId: 'getOwners',
+            tags: ['owners'],
+            responses: { 200: { description: 'ok' } },
+          },
+        },
+      },
+    };
+
+    let api: OpenAPIBackend<OpenAPIV3_1.Document>;
+    let resultOrder: string[];
+
+    beforeEach(async () => {
+      api = new OpenAPIBackend({ definition });
+      resultOrder = [];
+      api.register({
+        getPets: () => {
+          resultOrder.push('getPets');
+          return { statusCode: 200, body: ['Garfield'] };
+        },
+        getOwners: () => {
+          resultOrder.push('getOwners');
+          return { statusCode: 200, body: ['Jon'] };
+        },
+      });
+      await api.init();
+    });
+
+    test('wraps operation handlers in the order middleware was added', async () => {
+      api.use(async (c, next) => {
+        resultOrder.push('first before');
+        const res = await next();
+        resultOrder.push('first after');
+        return { ...res, headers: { 'x-operation': c.operation.operationId } };
+      });
+      api.use(async (c, next) => {
+        resultOrder.push('second before');
+        const res = await next();
+        resultOrder.push('second after');
+        return res;
+      });
+
+      const res = await api.handleRequest({ method: 'get', path: '/pets', headers: {} });
+      expect(res).toEqual({ statusCode: 200, body: ['Garfield'], headers: { 'x-operation': 'getPets' } });
+      expect(resultOrder).toEqual(['first before', 'second before', 'getPets', 'second after', 'first after']);
+    });
+
+    test('runs scoped middleware only for matching operationIds and tags', async () => {
+      api.use('getPets', async (c, next) => {
+        resultOrder.push('getPets middleware');
+        return next();
+      });
+      api.use('owners', async (c, next) => {
+        resultOrder.push('owners middleware');
+        return next();
+      });
+      api.use(async (c, next) => {
+        resultOrder.push('global middleware');
+        return next();
+      });
+
+      await api.handleRequest({ method: 'get', path: '/pets', headers: {} });
+      await api.handleRequest({ method: 'get', path: '/owners', headers: {} });
+      expect(resultOrder).toEqual([
+        'global middleware',
+        'getPets middleware',
+        'getPets',
+        'global middleware',
+        'owners middleware',
+        'getOwners',
+      ]);
+    });
+
+    test('skips the operation handler when next() is not called', async () => {
+      api.use('pets', (c) => c.reply(503, { err: 'maintenance' }));
+
+      const res = await api.handleRequest({ method: 'get', path: '/pets', headers: {} });
+      expect(res).toEqual({ statusCode: 503, headers: {}, body: { err: 'maintenance' } });
+      expect(resultOrder).toEqual([]);
+    });
+
+    test('passes handler arguments to middleware', async () => {
+      const mw = jest.fn((c, next) => next());
+      api.use(mw);
+
+      await api.handleRequest({ method: 'get', path: '/pets', headers: {} }, 'arg0', 'arg1');
+      expect(mw).toHaveBeenCalledWith(expect.objectContaining({ api }), expect.any(Function), 'arg0', 'arg1');
+    });
+
+    test('rejects when next() is called multiple times', async () => {
+      api.use(async (c, next) => {
+        await next();
+        return next();
+      });
+
+      await expect(api.handleRequest({ method: 'get', path: '/pets', headers: {} })).rejects.toThrow(
+        'next() called multiple times',
+      );
+    });
+
+    test('refuses to add middleware for unknown scopes in strict mode', async () => {
+      const strictApi = new OpenAPIBackend({ definition, strict: true });
+      await strictApi.init();
+      expect(() => strictApi.use('unknown', (c, next) => next())).toThrow('Unknown operationId or tag unknown');
+    });
+  });
+
+  describe('errorHandler', () => {
+    const definition: OpenAPIV3_1.Document = {
+      openapi: '3.1.0',
+      info: {
+        title: 'api',
+        version: '1.0.0',
+      },
+      paths: {
+        '/pets': {
+          get: {
+            operationId: 'getPets',
+            responses: { 200: { description: 'ok' } },
+          },
+        },
+      },
+    };
+    const request: Request = { method: 'get', path: '/pets', headers: {} };
+
+    let api: OpenAPIBackend<OpenAPIV3_1.Document>;
+    let errorHandler: jest.Mock;
+
+    beforeEach(async () => {
+      errorHandler = jest.fn((c: Context) => ({ statusCode: (c.error as HttpError).statusCode ?? 500 }));
+      api = new OpenAPIBackend({ definition, handlers: { errorHandler } });
+      await api.init();
+    });
+
+    test('passes errors thrown by operation handlers to errorHandler', async () => {
+      const error = new Error('boom');
+      api.register('getPets', () => {
+        throw error;
+      });
+
+      expect(await api.handleRequest(request, 'arg0')).toEqual({ statusCode: 500 });
+      expect(errorHandler).toHaveBeenCalledWith(expect.objectContaining({ error }), 'arg0');
+    });
+
+    test('passes routing errors to errorHandler when no notFound or methodNotAllowed handler is registered', async () => {
+      expect(await api.handleRequest({ ...request, path: '/unknown' })).toEqual({ statusCode: 404 });
+      expect(errorHandler.mock.calls[0][0].error).toBeInstanceOf(NotFoundError);
+
+      expect(await api.handleRequest({ ...request, method: 'delete' })).toEqual({ statusCode: 405 });
+      expect(errorHandler.mock.calls[1][0].error).toBeInstanceOf(MethodNotAllowedError);
+    });
+
+    test('passes NotImplementedError to errorHandler when no handler is registered for the operation', async () => {
+      expect(await api.handleRequest(request)).toEqual({ statusCode: 501 });
+      const { error } = errorHandler.mock.calls[0][0];
+      expect(error).toBeInstanceOf(NotImplementedError);
+      expect(error.operationId).toBe('getPets');
+      expect(error.message).toBe('501-notImplemented: getPets no handler registered');
+    });
+
+    test('passes errors thrown by hooks to errorHandler', async () => {
+      api.register('getPets', () => ({ statusCode: 200 }));
+      api.addHook('postResponse', () => {
+        throw new Error('postResponse');
+      });
+
+      expect(await api.handleRequest(request)).toEqual({ statusCode: 500 });
+      expect((errorHandler.mock.calls[0][0].error as Error).message).toBe('postResponse');
+    });
+
+    test('rejects with the error without an errorHandler', async () => {
+      delete api.handlers['errorHandler'];
+      await expect(api.handleRequest(request)).rejects.toBeInstanceOf(NotImplementedError);
+    });
   });
 });
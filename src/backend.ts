@@ -3,7 +3,6 @@
 
 import * as _ from 'lodash';
 import type { Options as AjvOpts } from 'ajv';
-import OpenAPISchemaValidator from 'openapi-schema-validator';
 import { parse as parseJSONSchema, dereference } from './refparser';
 import { dereferenceSync } from 'dereference-json-schema';
 
@@ -13,6 +12,13 @@ import { mock, SchemaLike } from 'mock-json-schema';
 import { OpenAPIRouter, Request, ParsedRequest, Operation, UnknownParams } from './router';
 import { OpenAPIValidator, ValidationResult, AjvCustomizer } from './validation';
 import OpenAPIUtils from './utils';
+import { OpenAPIDefinitionValidator, DefinitionValidationError } from './definition';
+import { MethodNotAllowedError, NotImplementedError } from './errors';
+import { problemHandlers } from './problem';
+import { createFetchHandler, FetchHandler } from './adapters/fetch';
+import { createNodeListener, NodeListener, NodeListenerOptions } from './adapters/node';
+import { createExpressMiddleware, ExpressMiddleware, ExpressMiddlewareOptions } from './adapters/express';
+import { createLambdaHandler, LambdaHandler } from './adapters/lambda';
 
 // alias Document to OpenAPIV3_1.Document
 export type Document = OpenAPIV3_1.Document | OpenAPIV3.Document;
@@ -47,7 +53,29 @@ export interface Context<
   operation: Operation<D>;
   validation: ValidationResult;
   security: SecurityHandlerResults;
+  responseMediaType?: string;
+  responseValidation?: ValidationResult;
   response: any;
+  error?: unknown;
+  reply: <ResponseBody = any>(
+    statusCode: number,
+    body?: ResponseBody,
+    headers?: OperationResponse['headers'],
+  ) => OperationResponse<ResponseBody>;
+}
+
+/**
+ * A structured response returned by an operation handler, i.e. with c.reply(200, body)
+ *
+ * Responses in this shape can be validated against the operation's response schemas with validateResponses
+ *
+ * @export
+ * @interface OperationResponse
+ */
+export interface OperationResponse<ResponseBody = any> {
+  statusCode: number;
+  headers?: { [header: string]: string | string[] | number };
+  body?: ResponseBody;
 }
 
 /**
@@ -67,6 +95,43 @@ export type Handler<
  */
 export type HandlerMap = { [operationId: string]: Handler | undefined };
 
+/**
+ * Onion-style middleware wrapping operation handlers, added with use()
+ *
+ * Calling next() runs the rest of the middleware chain and the operation handler, and resolves to their response.
+ * The value returned by the middleware is used as the response.
+ */
+export type Middleware = (context: Context, next: () => Promise<any>, ...args: any[]) => any | Promise<any>;
+
+/**
+ * Request lifecycle stages that hooks can be added to with addHook()
+ */
+export type HookName = 'preRouting' | 'postRouting' | 'postSecurity' | 'preOperation' | 'postResponse';
+
+/**
+ * Options for addHook()
+ *
+ * @export
+ * @interface HookOptions
+ */
+export interface HookOptions {
+  /**
+   * position of the hook in its chain, lower runs first. hooks with equal order run in the order they were added (default: 0)
+   */
+  order?: number;
+}
+
+/**
+ * A hook in the chain of a lifecycle stage
+ *
+ * @export
+ * @interface Hook
+ */
+export interface Hook {
+  handler: Handler;
+  order: number;
+}
+
 export type BoolPredicate = (context: Context, ...args: any[]) => boolean;
 
 /**
@@ -93,16 +158,22 @@ export interface Options<D extends Document = Document> {
   strict?: boolean;
   quick?: boolean;
   validate?: boolean | BoolPredicate;
+  validateResponses?: boolean | BoolPredicate;
   ajvOpts?: AjvOpts;
   customizeAjv?: AjvCustomizer;
   handlers?: HandlerMap & {
     notFound?: Handler;
     notImplemented?: Handler;
     validationFail?: Handler;
+    responseValidationFail?: Handler;
+    errorHandler?: Handler;
   };
   securityHandlers?: HandlerMap;
   ignoreTrailingSlashes?: boolean;
+  useServers?: boolean;
+  matchHost?: boolean;
   coerceTypes?: boolean;
+  problemDetails?: boolean;
 }
 
 /**
@@ -122,11 +193,15 @@ export class OpenAPIBackend<D extends Document = Document> {
   public strict: boolean;
   public quick: boolean;
   public validate: boolean | BoolPredicate;
+  public validateResponses: boolean | BoolPredicate;
   public ignoreTrailingSlashes: boolean;
+  public useServers: boolean;
+  public matchHost: boolean;
 
   public ajvOpts: AjvOpts;
   public customizeAjv: AjvCustomizer | undefined;
   public coerceTypes: boolean;
+  public problemDetails: boolean;
 
   public handlers: HandlerMap;
   public allowedHandlers = [
@@ -134,18 +209,28 @@ export class OpenAPIBackend<D extends Document = Document> {
     'notFound',
     '405',
     'methodNotAllowed',
+    '406',
+    'notAcceptable',
     '501',
     'notImplemented',
     '400',
     'validationFail',
+    '415',
+    'unsupportedMediaType',
     'unauthorizedHandler',
     'preRoutingHandler',
     'postRoutingHandler',
     'postSecurityHandler',
     'preOperationHandler',
     'postResponseHandler',
+    'responseValidationFail',
+    'errorHandler',
   ];
 
+  public hooks: { [name in HookName]?: Hook[] } = {};
+  public middleware: { scope?: string; middleware: Middleware }[] = [];
+  public allowedHooks: HookName[] = ['preRouting', 'postRouting', 'postSecurity', 'preOperation', 'postResponse'];
+
   public securityHandlers: HandlerMap;
 
   public router: OpenAPIRouter<D>;
@@ -160,9 +245,13 @@ export class OpenAPIBackend<D extends Document = Document> {
    * @param {boolean} opts.strict - strict mode, throw errors or warn on OpenAPI spec validation errors (default: false)
    * @param {boolean} opts.quick - quick startup, attempts to optimise startup; might break things (default: false)
    * @param {boolean} opts.validate - whether to validate requests with Ajv (default: true)
+   * @param {boolean} opts.validateResponses - whether to validate OperationResponses returned by handlers (default: false)
    * @param {boolean} opts.ignoreTrailingSlashes - whether to ignore trailing slashes when routing (default: true)
+   * @param {boolean} opts.useServers - whether to route paths relative to the servers[] urls in the document, in addition to apiRoot (default: false)
+   * @param {boolean} opts.matchHost - whether to also match the Host and X-Forwarded-* headers against absolute server urls. Implies useServers (default: false)
    * @param {boolean} opts.ajvOpts - default ajv opts to pass to the validator
    * @param {boolean} opts.coerceTypes - enable coerce typing of request path and query parameters. Requires validate to be enabled. (default: false)
+   * @param {boolean} opts.problemDetails - register default validationFail, notFound, methodNotAllowed, notImplemented and unauthorizedHandler handlers responding with RFC 9457 application/problem+json (default: false)
    * @param {{ [operationId: string]: Handler | ErrorHandler }} opts.handlers - Operation handlers to be registered
    * @memberof OpenAPIBackend
    */
@@ -170,12 +259,16 @@ export class OpenAPIBackend<D extends Document = Document> {
     const optsWithDefaults: Options<D> = {
       apiRoot: '/',
       validate: true,
+      validateResponses: false,
       strict: false,
       quick: false,
       ignoreTrailingSlashes: true,
+      useServers: false,
+      matchHost: false,
       handlers: {} as HandlerMap,
       securityHandlers: {} as HandlerMap,
       coerceTypes: false,
+      problemDetails: false,
       ...opts,
     };
     this.apiRoot = optsWithDefaults.apiRoot ?? '/';
@@ -183,8 +276,16 @@ export class OpenAPIBackend<D extends Document = Document> {
     this.strict = !!optsWithDefaults.strict;
     this.quick = !!optsWithDefaults.quick;
     this.validate = !!optsWithDefaults.validate;
+    this.validateResponses =
+      typeof optsWithDefaults.validateResponses === 'function'
+        ? optsWithDefaults.validateResponses
+        : !!optsWithDefaults.validateResponses;
     this.ignoreTrailingSlashes = !!optsWithDefaults.ignoreTrailingSlashes;
-    this.handlers = { ...optsWithDefaults.handlers }; // Copy to avoid mutating passed object
+    this.useServers = !!optsWithDefaults.useServers;
+    this.matchHost = !!optsWithDefaults.matchHost;
+    this.problemDetails = !!optsWithDefaults.problemDetails;
+    // Copy to avoid mutating passed object, passed handlers override the default problem details handlers
+    this.handlers = { ...(this.problemDetails ? problemHandlers : {}), ...optsWithDefaults.handlers };
     this.securityHandlers = { ...optsWithDefaults.securityHandlers }; // Copy to avoid mutating passed object
     this.ajvOpts = optsWithDefaults.ajvOpts ?? {};
     this.customizeAjv = optsWithDefaults.customizeAjv;
@@ -244,10 +345,12 @@ export class OpenAPIBackend<D extends Document = Document> {
       definition: this.definition,
       apiRoot: this.apiRoot,
       ignoreTrailingSlashes: this.ignoreTrailingSlashes,
+      useServers: this.useServers,
+      matchHost: this.matchHost,
     });
 
     // initalize validator with dereferenced definition
-    if (this.validate !== false) {
+    if (this.validate !== false || this.validateResponses !== false) {
       this.validator = new OpenAPIValidator({
         definition: this.definition,
         ajvOpts: this.ajvOpts,
@@ -295,6 +398,10 @@ export class OpenAPIBackend<D extends Document = Document> {
    * 2. Validation: Validates the request against the API operation schema
    * 3. Handling: Passes the request on to a registered handler
    *
+   * Errors thrown anywhere in the pipeline, including routing errors and postResponse hooks, are passed to the
+   * registered errorHandler as context.error, and its return value is returned as the response. Without an
+   * errorHandler the returned promise rejects with the error.
+   *
    * @param {Request} req
    * @param {...any[]} handlerArgs
    * @returns {Promise} handler return value
@@ -309,186 +416,415 @@ export class OpenAPIBackend<D extends Document = Document> {
     // initalize context object with a reference to this OpenAPIBackend instance
     const context: Partial<Context<any, any, any, any, any, D>> = { api: this };
 
-    // handle request with correct handler
-    const response: any = await (async () => {
-      // parse request
-      context.request = this.router.parseRequest(req);
-
-      // preRoutingHandler
-      const preRoutingHandler = this.handlers['preRoutingHandler'];
-      if (preRoutingHandler) {
-        await preRoutingHandler(context as Context<D>, ...handlerArgs);
-      }
+    // helper to build an OperationResponse, with the content-type defaulting to the negotiated media type
+    context.reply = (statusCode, body, headers = {}) => {
+      // non-2XX replies are negotiated against the content of the response declared for their status
+      const statusMediaTypes =
+        context.operation && !String(statusCode).startsWith('2')
+          ? OpenAPIUtils.getResponseMediaTypes(context.operation, statusCode)
+          : [];
+      const mediaType = statusMediaTypes.length
+        ? this.router.negotiateMediaType(req, context.operation, statusCode) ?? statusMediaTypes[0]
+        : context.responseMediaType;
+      const hasContentType = _.keys(headers).some((header) => header.toLowerCase() === 'content-type');
+      const setContentType = body !== undefined && mediaType && !mediaType.includes('*') && !hasContentType;
+      return {
+        statusCode,
+        headers: setContentType ? { 'content-type': mediaType, ...headers } : { ...headers },
+        ...(body !== undefined ? { body } : {}),
+      };
+    };
 
-      // match operation (routing)
-      try {
-        context.operation = this.router.matchOperation(req, true);
-      } catch (err) {
-        // postRoutingHandler on routing failure
-        const postRoutingHandler = this.handlers['postRoutingHandler'];
-        if (postRoutingHandler) {
-          await postRoutingHandler(context as Context<D>, ...handlerArgs);
+    try {
+      // handle request with correct handler
+      let response: any = await (async () => {
+        // parse request
+        context.request = this.router.parseRequest(req);
+
+        // preRouting hooks
+        const preRoutingResponse = await this.runHooks('preRouting', context as Context<D>, handlerArgs);
+        if (preRoutingResponse !== undefined) {
+          return preRoutingResponse;
         }
 
-        let handler = this.handlers['404'] || this.handlers['notFound'];
-        if (err instanceof Error && err.message.startsWith('405')) {
-          // 405 method not allowed
-          handler = this.handlers['405'] || this.handlers['methodNotAllowed'] || handler;
-        }
-        if (!handler) {
-          throw err;
+        // match operation (routing)
+        try {
+          context.operation = this.router.matchOperation(req, true);
+        } catch (err) {
+          // postRouting hooks on routing failure
+          const postRoutingResponse = await this.runHooks('postRouting', context as Context<D>, handlerArgs);
+          if (postRoutingResponse !== undefined) {
+            return postRoutingResponse;
+          }
+
+          let handler = this.handlers['404'] || this.handlers['notFound'];
+          if (err instanceof MethodNotAllowedError) {
+            // 405 method not allowed
+            handler = this.handlers['405'] || this.handlers['methodNotAllowed'] || handler;
+          }
+          if (!handler) {
+            throw err;
+          }
+          return handler(context as Context<D>, ...handlerArgs);
         }
-        return handler(context as Context<D>, ...handlerArgs);
-      }
 
-      const operationId = context.operation.operationId as string;
+        const operationId = context.operation.operationId as string;
 
-      // parse request again now with matched operation
-      context.request = this.router.parseRequest(req, context.operation);
+        // parse request again now with matched operation
+        context.request = this.router.parseRequest(req, context.operation);
 
-      // postRoutingHandler on routing success
-      const postRoutingHandler = this.handlers['postRoutingHandler'];
-      if (postRoutingHandler) {
-        await postRoutingHandler(context as Context<D>, ...handlerArgs);
-      }
+        // postRouting hooks on routing success
+        const postRoutingResponse = await this.runHooks('postRouting', context as Context<D>, handlerArgs);
+        if (postRoutingResponse !== undefined) {
+          return postRoutingResponse;
+        }
+
+        // get security requirements for the matched operation
+        // global requirements are already included in the router
+        const securityRequirements = context.operation.security || [];
+        const securitySchemes = _.flatMap(securityRequirements, _.keys);
 
-      // get security requirements for the matched operation
-      // global requirements are already included in the router
-      const securityRequirements = context.operation.security || [];
-      const securitySchemes = _.flatMap(securityRequirements, _.keys);
-
-      // run registered security handlers for all security requirements
-      const securityHandlerResults: SecurityHandlerResults = {};
-      await Promise.all(
-        securitySchemes.map(async (name) => {
-          securityHandlerResults[name] = undefined;
-          if (this.securityHandlers[name]) {
-            const securityHandler = this.securityHandlers[name];
-            // return a promise that will set the security handler result
-            return await Promise.resolve()
-              .then(() => securityHandler(context as Context<D>, ...handlerArgs))
-              .then((result: unknown) => {
-                securityHandlerResults[name] = result;
-              })
-              // save rejected error as result, if thrown
-              .catch((error: unknown) => {
-                securityHandlerResults[name] = { error };
-              });
-          } else {
-            // if no handler is found for scheme, set to undefined
+        // run registered security handlers for all security requirements
+        const securityHandlerResults: SecurityHandlerResults = {};
+        await Promise.all(
+          securitySchemes.map(async (name) => {
             securityHandlerResults[name] = undefined;
+            if (this.securityHandlers[name]) {
+              const securityHandler = this.securityHandlers[name];
+              // return a promise that will set the security handler result
+              return await Promise.resolve()
+                .then(() => securityHandler(context as Context<D>, ...handlerArgs))
+                .then((result: unknown) => {
+                  securityHandlerResults[name] = result;
+                })
+                // save rejected error as result, if thrown
+                .catch((error: unknown) => {
+                  securityHandlerResults[name] = { error };
+                });
+            } else {
+              // if no handler is found for scheme, set to undefined
+              securityHandlerResults[name] = undefined;
+            }
+          }),
+        );
+
+        // auth logic
+        const requirementsSatisfied = securityRequirements.map((requirementObject) => {
+          /*
+           * Security Requirement Objects that contain multiple schemes require
+           * that all schemes MUST be satisfied for a request to be authorized.
+           */
+          for (const requirement of Object.keys(requirementObject)) {
+            const requirementResult = securityHandlerResults[requirement];
+
+            // falsy return values are treated as auth fail
+            if (Boolean(requirementResult) === false) {
+              return false;
+            }
+
+            // handle error object passed earlier
+            if (
+              typeof requirementResult === 'object' &&
+              Object.keys(requirementResult).includes('error') &&
+              Object.keys(requirementResult).length === 1
+            ) {
+              return false;
+            }
           }
-        }),
-      );
+          return true;
+        });
 
-      // auth logic
-      const requirementsSatisfied = securityRequirements.map((requirementObject) => {
         /*
-         * Security Requirement Objects that contain multiple schemes require
-         * that all schemes MUST be satisfied for a request to be authorized.
+         * When a list of Security Requirement Objects is defined on the Open API
+         * object or Operation Object, only one of Security Requirement Objects
+         * in the list needs to be satisfied to authorize the request.
          */
-        for (const requirement of Object.keys(requirementObject)) {
-          const requirementResult = securityHandlerResults[requirement];
+        const authorized = requirementsSatisfied.some((securityResult) => securityResult === true);
+
+        // add the results and authorized state to the context object
+        context.security = {
+          authorized,
+          ...securityHandlerResults,
+        };
+
+        // postSecurity hooks
+        const postSecurityResponse = await this.runHooks('postSecurity', context as Context<D>, handlerArgs);
+        if (postSecurityResponse !== undefined) {
+          return postSecurityResponse;
+        }
 
-          // falsy return values are treated as auth fail
-          if (Boolean(requirementResult) === false) {
-            return false;
+        // call unauthorizedHandler handler if auth fails
+        if (!authorized && securityRequirements.length > 0) {
+          const unauthorizedHandler = this.handlers['unauthorizedHandler'];
+          if (unauthorizedHandler) {
+            return unauthorizedHandler(context as Context<D>, ...handlerArgs);
           }
+        }
 
-          // handle error object passed earlier
-          if (
-            typeof requirementResult === 'object' &&
-            Object.keys(requirementResult).includes('error') &&
-            Object.keys(requirementResult).length === 1
-          ) {
-            return false;
+        // negotiate the response media type from the Accept header
+        context.responseMediaType = this.router.negotiateMediaType(req, context.operation);
+
+        // 406 not acceptable, when none of the response media types are accepted by the client
+        if (
+          !context.responseMediaType &&
+          context.request.headers['accept'] &&
+          OpenAPIUtils.getResponseMediaTypes(context.operation).length
+        ) {
+          const notAcceptableHandler = this.handlers['406'] || this.handlers['notAcceptable'];
+          if (notAcceptableHandler) {
+            return notAcceptableHandler(context as Context<D>, ...handlerArgs);
           }
+          // if no handler is specified, proceed to the operation handler
         }
-        return true;
-      });
 
-      /*
-       * When a list of Security Requirement Objects is defined on the Open API
-       * object or Operation Object, only one of Security Requirement Objects
-       * in the list needs to be satisfied to authorize the request.
-       */
-      const authorized = requirementsSatisfied.some((securityResult) => securityResult === true);
-
-      // add the results and authorized state to the context object
-      context.security = {
-        authorized,
-        ...securityHandlerResults,
-      };
+        // 415 unsupported media type, when the request body content type is not declared for the operation
+        const contentType = context.request.headers['content-type'];
+        if (
+          context.operation.requestBody &&
+          contentType &&
+          !OpenAPIUtils.findRequestBodyMediaType(context.operation, contentType)
+        ) {
+          const unsupportedMediaTypeHandler = this.handlers['415'] || this.handlers['unsupportedMediaType'];
+          if (unsupportedMediaTypeHandler) {
+            return unsupportedMediaTypeHandler(context as Context<D>, ...handlerArgs);
+          }
+          // if no handler is specified, proceed to validation
+        }
 
-      // postSecurityHandler
-      const postSecurityHandler = this.handlers['postSecurityHandler'];
-      if (postSecurityHandler) {
-        await postSecurityHandler(context as Context<D>, ...handlerArgs);
-      }
+        // check whether this request should be validated
+        const validate =
+          typeof this.validate === 'function'
+            ? this.validate(context as Context<D>, ...handlerArgs)
+            : Boolean(this.validate);
+
+        // validate request
+        const validationFailHandler = this.handlers['validationFail'];
+        if (validate) {
+          context.validation = this.validator.validateRequest(req, context.operation);
+          if (context.validation.errors) {
+            // 400 request validation fail
+            if (validationFailHandler) {
+              return validationFailHandler(context as Context<D>, ...handlerArgs);
+            }
+            // if no validation handler is specified, just ignore it and proceed to route handler
+          }
 
-      // call unauthorizedHandler handler if auth fails
-      if (!authorized && securityRequirements.length > 0) {
-        const unauthorizedHandler = this.handlers['unauthorizedHandler'];
-        if (unauthorizedHandler) {
-          return unauthorizedHandler(context as Context<D>, ...handlerArgs);
+          // parse request again now with coerced types, if needed
+          if (this.validator.coerceTypes) {
+            context.request = this.router.parseRequest(context.validation.coerced, context.operation);
+          }
         }
-      }
 
-      // check whether this request should be validated
-      const validate =
-        typeof this.validate === 'function'
-          ? this.validate(context as Context<D>, ...handlerArgs)
-          : Boolean(this.validate);
-
-      // validate request
-      const validationFailHandler = this.handlers['validationFail'];
-      if (validate) {
-        context.validation = this.validator.validateRequest(req, context.operation);
-        if (context.validation.errors) {
-          // 400 request validation fail
-          if (validationFailHandler) {
-            return validationFailHandler(context as Context<D>, ...handlerArgs);
+        // preOperation hooks – run just before the operation handler
+        const preOperationResponse = await this.runHooks('preOperation', context as Context<D>, handlerArgs);
+        if (preOperationResponse !== undefined) {
+          return preOperationResponse;
+        }
+
+        // check whether the response should be validated
+        const validateResponses =
+          typeof this.validateResponses === 'function'
+            ? this.validateResponses(context as Context<D>, ...handlerArgs)
+            : Boolean(this.validateResponses);
+
+        // handle route, wrapped in the middleware matching the operation
+        const operationResponse = await this.runMiddleware(context as Context<D>, handlerArgs, async () => {
+          // get operation handler
+          const operationHandler = this.handlers[operationId];
+          if (!operationHandler) {
+            // 501 not implemented
+            const notImplementedHandler = this.handlers['501'] || this.handlers['notImplemented'];
+            if (!notImplementedHandler) {
+              throw new NotImplementedError(operationId);
+            }
+            return notImplementedHandler(context as Context<D>, ...handlerArgs);
           }
-          // if no validation handler is specified, just ignore it and proceed to route handler
+          return operationHandler(context as Context<D>, ...handlerArgs);
+        });
+        if (!validateResponses) {
+          return operationResponse;
         }
 
-        // parse request again now with coerced types, if needed
-        if (this.validator.coerceTypes) {
-          context.request = this.router.parseRequest(context.validation.coerced, context.operation);
+        // validate response, if the handler returned an OperationResponse
+        if (OpenAPIUtils.isOperationResponse(operationResponse)) {
+          context.responseValidation = this.validateOperationResponse(operationResponse, context.operation);
+          if (context.responseValidation.errors) {
+            // 500 response validation fail
+            const responseValidationFailHandler = this.handlers['responseValidationFail'];
+            if (responseValidationFailHandler) {
+              context.response = operationResponse;
+              return responseValidationFailHandler(context as Context<D>, ...handlerArgs);
+            }
+            // if no handler is specified, just log the errors and pass the response through
+            console.warn(
+              `Response validation failed for ${operationId}: ${JSON.stringify(context.responseValidation.errors)}`,
+            );
+          }
+        }
+        return operationResponse;
+      }).bind(this)();
+
+      // postResponse hooks
+      for (const { handler, registered } of this.getHooks('postResponse')) {
+        // pass response to the hook
+        context.response = response;
+        const hookResponse = await handler(context as Context<D>, ...handlerArgs);
+        // the return value of a registered postResponseHandler is always the response, added hooks replace it by
+        // returning a value. Either way the chain goes on
+        if (registered || hookResponse !== undefined) {
+          response = hookResponse;
         }
       }
 
-      // preOperationHandler – runs just before the operation handler
-      const preOperationHandler = this.handlers['preOperationHandler'];
-      if (preOperationHandler) {
-        await preOperationHandler(context as Context<D>, ...handlerArgs);
+      // return response
+      return response;
+    } catch (err) {
+      // pass errors thrown anywhere in the pipeline to the errorHandler
+      const errorHandler = this.handlers['errorHandler'];
+      if (!errorHandler) {
+        throw err;
       }
+      context.error = err;
+      return errorHandler(context as Context<D>, ...handlerArgs);
+    }
+  }
 
-      // get operation handler
-      const operationHandler = this.handlers[operationId];
-      if (!operationHandler) {
-        // 501 not implemented
-        const notImplementedHandler = this.handlers['501'] || this.handlers['notImplemented'];
-        if (!notImplementedHandler) {
-          throw Error(`501-notImplemented: ${operationId} no handler registered`);
-        }
-        return notImplementedHandler(context as Context<D>, ...handlerArgs);
+  /**
+   * Returns the hook chain of a lifecycle stage in order
+   *
+   * A handler registered as `${name}Handler`, i.e. register('preRoutingHandler', fn), is included as a hook with order 0
+   *
+   * @param {HookName} name
+   * @returns {(Hook & { registered: boolean })[]}
+   * @memberof OpenAPIBackend
+   */
+  private getHooks(name: HookName): (Hook & { registered: boolean })[] {
+    const registeredHandler = this.handlers[`${name}Handler`];
+    const hooks = [
+      ...(registeredHandler ? [{ handler: registeredHandler, order: 0, registered: true }] : []),
+      ...(this.hooks[name] || []).map((hook) => ({ ...hook, registered: false })),
+    ];
+    // sortBy is stable, so hooks with equal order keep their order
+    return _.sortBy(hooks, 'order');
+  }
+
+  /**
+   * Runs the hook chain of a lifecycle stage
+   *
+   * The chain is short-circuited by the first hook added with addHook() that returns a value other than undefined,
+   * which is returned as the response. The return values of registered lifecycle handlers are ignored.
+   *
+   * @param {HookName} name
+   * @param {Context<D>} context
+   * @param {any[]} handlerArgs
+   * @returns {Promise<any>} response of the short-circuiting hook, or undefined
+   * @memberof OpenAPIBackend
+   */
+  private async runHooks(name: HookName, context: Context<D>, handlerArgs: any[]): Promise<any> {
+    for (const { handler, registered } of this.getHooks(name)) {
+      const hookResponse = await handler(context, ...handlerArgs);
+      if (!registered && hookResponse !== undefined) {
+        return hookResponse;
       }
+    }
+    return undefined;
+  }
 
-      // handle route
-      return operationHandler(context as Context<D>, ...handlerArgs);
-    }).bind(this)();
+  /**
+   * Runs the middleware matching the operation of the context around the operation handler
+   *
+   * Middleware added without a scope runs first, in the order it was added, followed by middleware scoped to the
+   * operationId or one of the tags of the operation
+   *
+   * @param {Context<D>} context
+   * @param {any[]} handlerArgs
+   * @param {() => Promise<any>} handler - resolves and calls the operation handler
+   * @returns {Promise<any>} response
+   * @memberof OpenAPIBackend
+   */
+  private runMiddleware(context: Context<D>, handlerArgs: any[], handler: () => Promise<any>): Promise<any> {
+    const { operationId, tags = [] } = context.operation;
+    const [global, scoped] = _.partition(this.middleware, ({ scope }) => scope === undefined);
+    const middleware = [
+      ...global,
+      ...scoped.filter(({ scope }) => scope === operationId || _.includes(tags, scope)),
+    ].map(({ middleware }) => middleware);
+
+    const dispatch = async (index: number): Promise<any> => {
+      if (index === middleware.length) {
+        return handler();
+      }
+      let called = false;
+      const next = () => {
+        if (called) {
+          return Promise.reject(new Error('next() called multiple times'));
+        }
+        called = true;
+        return dispatch(index + 1);
+      };
+      return middleware[index](context, next, ...handlerArgs);
+    };
+    return dispatch(0);
+  }
 
-    // post response handler
-    const postResponseHandler = this.handlers['postResponseHandler'];
-    if (postResponseHandler) {
-      // pass response to postResponseHandler
-      context.response = response;
-      return postResponseHandler(context as Context<D>, ...handlerArgs);
-    }
+  /**
+   * Creates a handler for WHATWG fetch Requests that responds with fetch Responses,
+   * i.e. for Bun.serve, Deno.serve or Cloudflare Workers
+   *
+   * Handlers receive the fetch Request after the context, followed by any additional arguments passed to the handler.
+   * Handler return values are converted into Responses, see toFetchResponse
+   *
+   * @returns {FetchHandler}
+   * @memberof OpenAPIBackend
+   */
+  public createFetchHandler(): FetchHandler {
+    return createFetchHandler(this);
+  }
+
+  /**
+   * Creates a request listener for node:http servers, i.e. http.createServer(api.createNodeListener())
+   *
+   * Request bodies are read and parsed up to opts.bodyLimit. Handlers receive the IncomingMessage and ServerResponse
+   * after the context, and their return values are written to the ServerResponse, see writeNodeResponse
+   *
+   * @param {NodeListenerOptions} [opts]
+   * @param {number} [opts.bodyLimit] - maximum request body size in bytes (default: 1mb)
+   * @returns {NodeListener}
+   * @memberof OpenAPIBackend
+   */
+  public createNodeListener(opts?: NodeListenerOptions): NodeListener {
+    return createNodeListener(this, opts);
+  }
+
+  /**
+   * Creates an Express / Connect middleware, i.e. app.use(api.createExpressMiddleware())
+   *
+   * Bodies parsed by a body parser middleware are used as-is, otherwise they are read up to opts.bodyLimit. Handlers
+   * receive the Express req and res after the context. Requests not matching any operation are passed on with next()
+   * unless opts.mountUnmatched is set, and thrown errors are passed on with next(err)
+   *
+   * @param {ExpressMiddlewareOptions} [opts]
+   * @param {boolean} [opts.mountUnmatched] - handle unmatched requests with the api instead of calling next()
+   * @param {number} [opts.bodyLimit] - maximum request body size in bytes (default: 1mb)
+   * @returns {ExpressMiddleware}
+   * @memberof OpenAPIBackend
+   */
+  public createExpressMiddleware(opts?: ExpressMiddlewareOptions): ExpressMiddleware {
+    return createExpressMiddleware(this, opts);
+  }
 
-    // return response
-    return response;
+  /**
+   * Creates an AWS Lambda handler for API Gateway REST API (v1), HTTP API (v2) and Application Load Balancer events,
+   * i.e. export const handler = api.createLambdaHandler()
+   *
+   * Handlers receive the event and Lambda context after the api context, and their return values are converted into
+   * proxy results matching the event type, see toAPIGatewayProxyResult, toAPIGatewayProxyResultV2 and toALBResult
+   *
+   * @returns {LambdaHandler}
+   * @memberof OpenAPIBackend
+   */
+  public createLambdaHandler(): LambdaHandler {
+    return createLambdaHandler(this);
   }
 
   /**
@@ -564,6 +900,85 @@ export class OpenAPIBackend<D extends Document = Document> {
     }
   }
 
+  /**
+   * Adds middleware wrapping all operation handlers
+   *
+   * @param {Middleware} middleware
+   * @memberof OpenAPIBackend
+   */
+  public use(middleware: Middleware): void;
+
+  /**
+   * Adds middleware wrapping the handler of an operation, or the handlers of all operations with a tag
+   *
+   * @param {string} operationIdOrTag
+   * @param {Middleware} middleware
+   * @memberof OpenAPIBackend
+   */
+  public use(operationIdOrTag: string, middleware: Middleware): void;
+
+  /**
+   * Overloaded use() implementation
+   *
+   * Middleware is called with the context and a next() function, followed by the arguments passed to handleRequest.
+   * It runs after request validation and the preOperation hooks, around the operation handler or the notImplemented
+   * handler. Returning a value without calling next() skips the rest of the chain.
+   *
+   * @param {...any[]} args
+   * @memberof OpenAPIBackend
+   */
+  public use(...args: any[]): void {
+    const [scope, middleware]: [string | undefined, Middleware] =
+      typeof args[0] === 'string' ? [args[0], args[1]] : [undefined, args[0]];
+
+    // make sure we are adding a function and not anything else
+    if (typeof middleware !== 'function') {
+      throw new Error('Middleware should be a function');
+    }
+
+    // if initalized, check that the scope matches an operationId or tag
+    if (this.initalized && scope !== undefined) {
+      const operations = this.getOperations();
+      if (!operations.some(({ operationId, tags }) => operationId === scope || _.includes(tags, scope))) {
+        const err = `Unknown operationId or tag ${scope}`;
+        // in strict mode, throw Error, otherwise just emit a warning
+        if (this.strict) {
+          throw new Error(`${err}. Refusing to add middleware`);
+        } else {
+          console.warn(err);
+        }
+      }
+    }
+
+    this.middleware.push({ scope, middleware });
+  }
+
+  /**
+   * Adds a hook to the chain of a request lifecycle stage
+   *
+   * Multiple hooks can be added to each stage, and they run in the order given by opts.order. A hook can short-circuit
+   * the request by returning a value other than undefined, which is then used as the response. postResponse hooks
+   * receive the response as context.response, and can replace it by returning a value for the next hooks in the chain.
+   *
+   * Handlers registered with register('preRoutingHandler', fn) etc. keep working as an entry with order 0 in the chain
+   *
+   * @param {HookName} name - lifecycle stage: preRouting, postRouting, postSecurity, preOperation or postResponse
+   * @param {Handler} hook
+   * @param {HookOptions} [opts]
+   * @param {number} [opts.order] - position in the chain, lower runs first (default: 0)
+   * @memberof OpenAPIBackend
+   */
+  public addHook(name: HookName, hook: Handler, opts: HookOptions = {}): void {
+    // make sure we are adding a function and not anything else
+    if (typeof hook !== 'function') {
+      throw new Error('Hook should be a function');
+    }
+    if (!_.includes(this.allowedHooks, name)) {
+      throw new Error(`Unknown hook ${name}`);
+    }
+    this.hooks[name] = [...(this.hooks[name] || []), { handler: hook, order: opts.order ?? 0 }];
+  }
+
   /**
    * Registers a security handler for a security scheme
    *
@@ -601,9 +1016,9 @@ export class OpenAPIBackend<D extends Document = Document> {
    * @param {string} operationId - operationId of the operation for which to mock the response
    * @param {object} opts - (optional) options
    * @param {number} opts.responseStatus - (optional) the response code of the response to mock (default: 200)
-   * @param {string} opts.mediaType - (optional) the media type of the response to mock (default: application/json)
+   * @param {string} opts.mediaType - (optional) media type to mock, i.e. c.responseMediaType (default: application/json)
    * @param {string} opts.example - (optional) the specific example to use (if operation has multiple examples)
-   * @returns {{ status: number; mock: any }}
+   * @returns {{ status: number; mock: any; mediaType?: string }}
    * @memberof OpenAPIBackend
    */
   public mockResponseForOperation(
@@ -613,7 +1028,7 @@ export class OpenAPIBackend<D extends Document = Document> {
       mediaType?: string;
       example?: string;
     } = {},
-  ): { status: number; mock: any } {
+  ): { status: number; mock: any; mediaType?: string } {
     let status = 200;
     const defaultMock = {};
 
@@ -643,10 +1058,12 @@ export class OpenAPIBackend<D extends Document = Document> {
     const { content } = response;
 
     // resolve media type
-    // 1. check for mediaType opt in content (default: application/json)
+    // 1. check for mediaType opt in content, i.e. the negotiated context.responseMediaType (default: application/json)
     // 2. pick first media type in content
-    const mediaType = opts.mediaType || 'application/json';
-    const mediaResponse = content[mediaType] || content[Object.keys(content)[0]];
+    const mediaType =
+      OpenAPIUtils.findMediaTypeMatch(opts.mediaType || 'application/json', Object.keys(content)) ||
+      Object.keys(content)[0];
+    const mediaResponse = content[mediaType];
     if (!mediaResponse) {
       return { status, mock: defaultMock };
     }
@@ -660,13 +1077,13 @@ export class OpenAPIBackend<D extends Document = Document> {
         OpenAPIV3_1.ExampleObject
       >;
       if (exampleObject && exampleObject.value) {
-        return { status, mock: exampleObject.value };
+        return { status, mock: exampleObject.value, mediaType };
       }
     }
 
     // if operation has an example, return its value
     if (mediaResponse.example) {
-      return { status, mock: mediaResponse.example };
+      return { status, mock: mediaResponse.example, mediaType };
     }
 
     // pick the first example from examples
@@ -676,12 +1093,12 @@ export class OpenAPIBackend<D extends Document = Document> {
         OpenAPIV3.ExampleObject,
         OpenAPIV3_1.ExampleObject
       >;
-      return { status, mock: exampleObject.value };
+      return { status, mock: exampleObject.value, mediaType };
     }
 
     // mock using json schema
     if (schema) {
-      return { status, mock: mock(schema as SchemaLike) };
+      return { status, mock: mock(schema as SchemaLike), mediaType };
     }
 
     // we should never get here, schema or an example must be provided
@@ -689,17 +1106,45 @@ export class OpenAPIBackend<D extends Document = Document> {
   }
 
   /**
-   * Validates this.document, which is the parsed OpenAPI document. Throws an error if validation fails.
+   * Mocks an OperationResponse for an operation based on example or response schema
+   *
+   * The content-type header is set to the media type of the mocked response
+   *
+   * @param {string} operationId - operationId of the operation for which to mock the response
+   * @param {object} opts - (optional) options, see mockResponseForOperation
+   * @returns {OperationResponse}
+   * @memberof OpenAPIBackend
+   */
+  public mockOperationResponse(
+    operationId: string,
+    opts: {
+      code?: number;
+      mediaType?: string;
+      example?: string;
+    } = {},
+  ): OperationResponse {
+    const { status, mock, mediaType } = this.mockResponseForOperation(operationId, opts);
+    return {
+      statusCode: status,
+      headers: mediaType && !mediaType.includes('*') ? { 'content-type': mediaType } : {},
+      body: mock,
+    };
+  }
+
+  /**
+   * Validates this.document, which is the parsed OpenAPI document, against the OpenAPI 3.0 or 3.1 meta-schema
+   * depending on its openapi version. Throws a DefinitionValidationError if validation fails.
+   *
+   * Errors point to the invalid values with JSON pointers, and to their lines when the document was loaded from a file
    *
    * @returns {D} parsed document
    * @memberof OpenAPIBackend
    */
   public validateDefinition(): D {
-    const validateOpenAPI = new OpenAPISchemaValidator({ version: 3 });
-    const { errors } = validateOpenAPI.validate(this.document);
+    const file = typeof this.inputDocument === 'string' ? this.inputDocument : undefined;
+    const errors = OpenAPIDefinitionValidator.validate(this.document, file);
     if (errors.length) {
-      const prettyErrors = JSON.stringify(errors, null, 2);
-      throw new Error(`Document is not valid OpenAPI. ${errors.length} validation errors:\n${prettyErrors}`);
+      throw new DefinitionValidationError(errors, OpenAPIDefinitionValidator.getVersion(this.document));
     }
     return this.document;
   }
@@ -707,6 +1152,8 @@ export class OpenAPIBackend<D extends Document = Document> {
   /**
    * Flattens operations into a simple array of Operation objects easy to work with
    *
+   * The same Operation objects are returned on every call, so they can be used as WeakMap keys.
+   *
    * Alias for: router.getOperations()
    *
    * @returns {Operation<D>[]}
@@ -729,6 +1176,20 @@ export class OpenAPIBackend<D extends Document = Document> {
     return this.router.getOperation(operationId);
   }
 
+  /**
+   * Gets a single operation based on http method and path template
+   *
+   * Alias for: router.getOperationByPath(method, path)
+   *
+   * @param {string} method
+   * @param {string} path
+   * @returns {Operation<D>}
+   * @memberof OpenAPIBackend
+   */
+  public getOperationByPath(method: string, path: string): Operation<D> | undefined {
+    return this.router.getOperationByPath(method, path);
+  }
+
   /**
    * Matches a request to an API operation (router)
    *
@@ -759,6 +1220,42 @@ export class OpenAPIBackend<D extends Document = Document> {
     return this.validator.validateRequest(req, operation);
   }
 
+  /**
+   * Validates the body and headers of an OperationResponse against the response for its status code and content-type
+   *
+   * A response without a body, i.e. c.reply(204), is validated as null. A status code the operation doesn't declare,
+   * without a default response, is reported as an error with keyword undeclaredStatus
+   *
+   * @param {OperationResponse} res - response to validate
+   * @param {(Operation<D> | string)} operation
+   * @returns {ValidationResult}
+   * @memberof OpenAPIBackend
+   */
+  public validateOperationResponse(res: OperationResponse, operation: Operation<D> | string): ValidationResult {
+    const contentTypeHeader = _.keys(res.headers).find((header) => header.toLowerCase() === 'content-type');
+    const contentType = contentTypeHeader ? String(res.headers[contentTypeHeader]) : undefined;
+    const bodyValidation = this.validator.validateResponse(res.body ?? null, operation, res.statusCode, contentType);
+    const errors = [...(bodyValidation.errors || [])];
+    const op = typeof operation === 'string' ? this.router.getOperation(operation) : operation;
+    if (op?.responses && OpenAPIUtils.findStatusCodeMatch(res.statusCode, op.responses) === undefined) {
+      // the response status code is not declared for the operation
+      errors.push({
+        keyword: 'undeclaredStatus',
+        instancePath: '',
+        schemaPath: '#/responses',
+        params: { statusCode: res.statusCode },
+        message: `status code ${res.statusCode} is not declared for the operation`,
+      });
+    }
+    if (res.headers) {
+      const headersValidation = this.validator.validateResponseHeaders(res.headers, operation, {
+        statusCode: res.statusCode,
+      });
+      errors.push(...(headersValidation.errors || []));
+    }
+    return { valid: errors.length === 0, errors: errors.length ? errors : null };
+  }
+
   /**
    * Validates a response and returns the result.
    *
@@ -769,11 +1266,17 @@ export class OpenAPIBackend<D extends Document = Document> {
    * @param {*} res - response to validate
    * @param {(Operation<D> | string)} [operation]
    * @param {number} status
+   * @param {string} [contentType] - Content-Type header of the response
    * @returns {ValidationStatus}
    * @memberof OpenAPIBackend
    */
-  public validateResponse(res: any, operation: Operation<D> | string, statusCode?: number): ValidationResult {
-    return this.validator.validateResponse(res, operation, statusCode);
+  public validateResponse(
+    res: any,
+    operation: Operation<D> | string,
+    statusCode?: number,
+    contentType?: string | string[],
+  ): ValidationResult {
+    return this.validator.validateResponse(res, operation, statusCode, contentType);
   }
 
   /**
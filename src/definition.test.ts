@@ -0,0 +1,218 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as path from 'path';
+import { OpenAPIDefinitionValidator, DefinitionValidationError } from './definition';
+
+const testsDir = path.join(__dirname, '..', '__tests__');
+const invalidAPIYAML = path.join(testsDir, 'resources', 'invalid.openapi.yml');
+
+const responses = { 200: { description: 'ok' } };
+
+describe('OpenAPIDefinitionValidator', () => {
+  describe('.validate', () => {
+    describe('OpenAPI 3.1', () => {
+      const meta = { openapi: '3.1.0', info: { title: 'api', version: '1.0.0' } };
+
+      test('accepts documents with only webhooks', async () => {
+        const document: any = {
+          ...meta,
+          webhooks: { newPet: { post: { responses } } },
+        };
+        expect(OpenAPIDefinitionValidator.validate(document)).toEqual([]);
+      });
+
+      test('accepts license identifiers and null types', async () => {
+        const document: any = {
+          ...meta,
+          info: { ...meta.info, license: { name: 'MIT', identifier: 'MIT' } },
+          components: { schemas: { Name: { type: ['string', 'null'] } } },
+        };
+        expect(OpenAPIDefinitionValidator.validate(document)).toEqual([]);
+      });
+
+      test('validates schema objects against the JSON Schema 2020-12 meta-schema', async () => {
+        const document: any = {
+          ...meta,
+          components: { schemas: { Limit: { type: 'integer', exclusiveMinimum: true } } },
+        };
+        expect(OpenAPIDefinitionValidator.validate(document)).toEqual([
+          {
+            pointer: '/components/schemas/Limit/exclusiveMinimum',
+            message: 'must be number',
+            schemaKeyword: 'type',
+          },
+        ]);
+      });
+
+      test('rejects documents without paths, components or webhooks', async () => {
+        const document: any = { ...meta };
+        const errors = OpenAPIDefinitionValidator.validate(document);
+        expect(errors).toContainEqual({ pointer: '', message: 'must match a schema in anyOf', schemaKeyword: 'anyOf' });
+      });
+
+      test('points unknown properties at the property itself', async () => {
+        const document: any = { ...meta, info: { ...meta.info, name: 'api' }, paths: {} };
+        expect(OpenAPIDefinitionValidator.validate(document)).toEqual([
+          {
+            pointer: '/info/name',
+            message: "must NOT have unevaluated properties 'name'",
+            schemaKeyword: 'unevaluatedProperties',
+          },
+        ]);
+      });
+
+      test('locates errors in the file the document was loaded from', async () => {
+        const document: any = {
+          openapi: '3.1.0',
+          info: {
+            title: 'Invalid API',
+            version: '1.0.0',
+            license: { name: 'MIT', identifier: 'MIT', url: 'https://opensource.org/licenses/MIT' },
+          },
+          paths: {
+            '/pets': {
+              get: {
+                operationId: 'getPets',
+                parameters: [
+                  { name: 'limit', in: 'query', schema: { type: ['integer', 'null'] } },
+                  { name: 'id', in: 'path', schema: { type: 'integer' } },
+                ],
+                responses: { 200: { description: 'List of pets' } },
+              },
+            },
+          },
+        };
+        expect(OpenAPIDefinitionValidator.validate(document, invalidAPIYAML)).toEqual([
+          {
+            pointer: '/info/license',
+            message: 'must NOT be valid',
+            schemaKeyword: 'not',
+            file: invalidAPIYAML,
+            line: 5,
+          },
+          {
+            pointer: '/paths/~1pets/get/parameters/1',
+            message: "must have required property 'required'",
+            schemaKeyword: 'required',
+            file: invalidAPIYAML,
+            line: 18,
+          },
+        ]);
+      });
+    });
+
+    describe('OpenAPI 3.0', () => {
+      const meta = { openapi: '3.0.3', info: { title: 'api', version: '1.0.0' } };
+
+      test('accepts valid documents', async () => {
+        const document: any = { ...meta, paths: { '/pets': { get: { responses } } } };
+        expect(OpenAPIDefinitionValidator.validate(document)).toEqual([]);
+      });
+
+      test('rejects 3.1 features', async () => {
+        const document: any = { ...meta, webhooks: { newPet: { post: { responses } } } };
+        const errors = OpenAPIDefinitionValidator.validate(document);
+        expect(errors).toContainEqual({
+          pointer: '',
+          message: "must have required property 'paths'",
+          schemaKeyword: 'required',
+        });
+        expect(errors).toContainEqual({
+          pointer: '/webhooks',
+          message: "must NOT have additional properties 'webhooks'",
+          schemaKeyword: 'additionalProperties',
+        });
+      });
+    });
+  });
+
+  describe('.findLine', () => {
+    const yaml = [
+      'openapi: 3.1.0',
+      'info:',
+      '  title: api',
+      '  version: 1.0.0',
+      'tags:',
+      '- name: pets',
+      '  description: Pet operations',
+      'paths:',
+      '  /pets:',
+      '    get:',
+      '      parameters:',
+      '        - name: limit',
+      '          in: query',
+      '        - name: offset',
+      "          'in': query",
+      '      responses:',
+      "        '200':",
+      '          description: ok',
+    ].join('\n');
+
+    const json = JSON.stringify(
+      {
+        openapi: '3.1.0',
+        info: { title: 'api', version: '1.0.0' },
+        paths: {
+          '/pets': {
+            get: {
+              parameters: [
+                { name: 'limit', in: 'query' },
+                { name: 'offset', in: 'query' },
+              ],
+            },
+          },
+        },
+      },
+      null,
+      2,
+    );
+
+    test.each([
+      ['/info/version', 4],
+      ['/tags/0/description', 7],
+      ['/paths/~1pets/get', 10],
+      ['/paths/~1pets/get/parameters/1', 14],
+      ['/paths/~1pets/get/parameters/1/in', 15],
+      ['/paths/~1pets/get/responses/200/description', 18],
+    ])('finds %s in YAML', async (pointer, line) => {
+      expect(OpenAPIDefinitionValidator.findLine(yaml, pointer)).toEqual(line);
+    });
+
+    test.each([
+      ['/info/version', 5],
+      ['/paths/~1pets/get', 9],
+      ['/paths/~1pets/get/parameters/1/in', 17],
+    ])('finds %s in JSON', async (pointer, line) => {
+      expect(OpenAPIDefinitionValidator.findLine(json, pointer)).toEqual(line);
+    });
+
+    test('falls back to the closest parent', async () => {
+      expect(OpenAPIDefinitionValidator.findLine(yaml, '/paths/~1pets/get/security')).toEqual(10);
+    });
+
+    test('returns undefined for values it cannot locate', async () => {
+      expect(OpenAPIDefinitionValidator.findLine(yaml, '/components')).toBeUndefined();
+    });
+  });
+});
+
+describe('DefinitionValidationError', () => {
+  test('lists errors with their JSON pointers and file locations', async () => {
+    const error = new DefinitionValidationError(
+      [
+        { pointer: '/info/license', message: 'must NOT be valid', schemaKeyword: 'not', file: 'api.yml', line: 5 },
+        { pointer: '/paths', message: 'must be object', schemaKeyword: 'type', file: 'api.yml' },
+        { pointer: '', message: "must have required property 'info'", schemaKeyword: 'required' },
+      ],
+      '3.1',
+    );
+    expect(error.message).toEqual(
+      [
+        'Document is not valid OpenAPI 3.1. 3 validation errors:',
+        '  #/info/license: must NOT be valid (api.yml:5)',
+        '  #/paths: must be object (api.yml)',
+        "  #: must have required property 'info'",
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,229 @@
+// library code, any is fine
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as fs from 'fs';
+import * as _ from 'lodash';
+import Ajv, { ErrorObject } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import OpenAPISchemaValidator from 'openapi-schema-validator';
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import OpenAPIUtils from './utils';
+import { openapi31Schema } from './schemas/openapi-3.1';
+
+// alias Document to OpenAPIV3_1.Document
+type Document = OpenAPIV3_1.Document | OpenAPIV3.Document;
+
+/**
+ * An error found when validating an OpenAPI document against the OpenAPI meta-schema
+ *
+ * @export
+ * @interface DefinitionError
+ */
+export interface DefinitionError {
+  /**
+   * JSON pointer to the invalid value in the document, i.e. /info/license
+   */
+  pointer: string;
+  message: string;
+  schemaKeyword: string;
+  /**
+   * file the document was loaded from
+   */
+  file?: string;
+  /**
+   * line of the invalid value in the file, when it can be located
+   */
+  line?: number;
+}
+
+/**
+ * Thrown when the OpenAPI document doesn't validate against the meta-schema for its OpenAPI version
+ *
+ * @export
+ * @class DefinitionValidationError
+ */
+export class DefinitionValidationError extends Error {
+  public errors: DefinitionError[];
+
+  constructor(errors: DefinitionError[], version: string) {
+    const lines = errors.map(({ pointer, message, file, line }) => {
+      const location = file ? ` (${line ? `${file}:${line}` : file})` : '';
+      return `  #${pointer}: ${message}${location}`;
+    });
+    super(`Document is not valid OpenAPI ${version}. ${errors.length} validation errors:\n${lines.join('\n')}`);
+    this.name = 'DefinitionValidationError';
+    this.errors = errors;
+  }
+}
+
+// compiled meta-schema validators, created once per OpenAPI version
+const getMetaSchemaValidator = _.memoize((version: string): ((document: Document) => ErrorObject[]) => {
+  if (version === '3.1') {
+    const ajv = new Ajv2020({ allErrors: true, strict: false });
+    addFormats(ajv as unknown as Ajv);
+    const validate = ajv.compile(openapi31Schema);
+    return (document) => (validate(document) ? [] : validate.errors);
+  }
+  const validator = new OpenAPISchemaValidator({ version: 3 });
+  return (document) => validator.validate(document).errors as ErrorObject[];
+});
+
+/**
+ * Validates OpenAPI documents against the OpenAPI 3.0 or 3.1 meta-schema
+ *
+ * @export
+ * @class OpenAPIDefinitionValidator
+ */
+export class OpenAPIDefinitionValidator {
+  /**
+   * Gets the OpenAPI version whose meta-schema is used to validate the document
+   *
+   * @static
+   * @param {Document} document
+   * @returns {string} '3.1' or '3.0'
+   * @memberof OpenAPIDefinitionValidator
+   */
+  public static getVersion(document: Document): '3.0' | '3.1' {
+    return OpenAPIUtils.isOpenAPIV3_1(document) ? '3.1' : '3.0';
+  }
+
+  /**
+   * Validates a parsed OpenAPI document against the meta-schema for its OpenAPI version
+   *
+   * When the document was loaded from a file, errors are located to a line in it
+   *
+   * @static
+   * @param {Document} document - parsed OpenAPI document
+   * @param {string} [file] - path of the JSON or YAML file the document was loaded from
+   * @returns {DefinitionError[]}
+   * @memberof OpenAPIDefinitionValidator
+   */
+  public static validate(document: Document, file?: string): DefinitionError[] {
+    const errors = getMetaSchemaValidator(this.getVersion(document))(document);
+    if (!errors?.length) {
+      return [];
+    }
+    const source = file ? this.readSource(file) : undefined;
+    // if-then-else errors only repeat the errors of the failed branch
+    const formatted = errors
+      .filter((error) => error.keyword !== 'if')
+      .map((error): DefinitionError => {
+        // point unknown properties at the property itself, rather than the object containing them
+        const property = error.params?.additionalProperty ?? error.params?.unevaluatedProperty;
+        const pointer =
+          property !== undefined
+            ? `${error.instancePath}/${String(property).replace(/~/g, '~0').replace(/\//g, '~1')}`
+            : error.instancePath;
+        const message = property !== undefined ? `${error.message} '${property}'` : error.message;
+        return {
+          pointer,
+          message,
+          schemaKeyword: error.keyword,
+          ...(file ? { file } : {}),
+          ...(source !== undefined ? { line: this.findLine(source, pointer) } : {}),
+        };
+      });
+    return _.uniqBy(formatted, ({ pointer, message }) => `${pointer} ${message}`);
+  }
+
+  /**
+   * Finds the line of the value a JSON pointer refers to in the source of a YAML or JSON document
+   *
+   * Works on block style YAML and indented JSON. If the exact value can't be located, the line of its closest located
+   * parent is returned.
+   *
+   * @static
+   * @param {string} source - document source
+   * @param {string} pointer - JSON pointer, i.e. /paths/~1pets/get
+   * @returns {(number | undefined)} 1-based line number, undefined if not even the first segment could be located
+   * @memberof OpenAPIDefinitionValidator
+   */
+  public static findLine(source: string, pointer: string): number | undefined {
+    const lines = source.split(/\r?\n/);
+    const indentOf = (line: string) => line.length - line.trimStart().length;
+    const contentIndentOf = (line: string) => /^\s*(?:-\s+)*/.exec(line)[0].length;
+    const isBlank = (line: string) => !line.trim() || line.trimStart().startsWith('#');
+    const isSequenceItem = (line: string) => /^-(\s|$)/.test(line.trimStart());
+
+    // the current node is the line its key (or sequence item) is on, and the indentation of its key
+    let node = { line: -1, indent: -1, item: false };
+    let found: number | undefined;
+    const segments = pointer
+      .split('/')
+      .slice(1)
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+    for (const segment of segments) {
+      // collect the lines belonging to the current node
+      const children: number[] = [];
+      for (let i = node.item ? node.line : node.line + 1; i < lines.length; i++) {
+        if (isBlank(lines[i])) {
+          continue;
+        }
+        // keys of a sequence item are at its indentation, a YAML sequence may be at the indentation of its key
+        const indent = indentOf(lines[i]);
+        const outside = node.item
+          ? indent < node.indent
+          : indent < node.indent || (indent === node.indent && !isSequenceItem(lines[i]));
+        if (i !== node.line && outside) {
+          break;
+        }
+        children.push(i);
+      }
+      if (!children.length) {
+        break;
+      }
+
+      let next: typeof node | undefined;
+      const first = lines[children[0]];
+      if (/^\d+$/.test(segment) && (isSequenceItem(first) || /^\s*[[{]\s*$/.test(first))) {
+        // sequence items are either YAML "- " lines, or JSON values at the indentation of the first item
+        const itemIndent = indentOf(first);
+        const items = children.filter(
+          (i) =>
+            indentOf(lines[i]) === itemIndent &&
+            (isSequenceItem(first) ? isSequenceItem(lines[i]) : !/^[\]}]/.test(lines[i].trimStart())),
+        );
+        const i = items[Number(segment)];
+        if (i !== undefined) {
+          next = isSequenceItem(lines[i])
+            ? { line: i, indent: contentIndentOf(lines[i]), item: true }
+            : { line: i, indent: itemIndent, item: false };
+        }
+      } else {
+        // keys are the lines at the indentation of the first key, skipping lines with only brackets
+        const keyLines = children.filter((i) => !/^[\s[\]{},]*$/.test(lines[i]));
+        const keyIndent = keyLines.length ? contentIndentOf(lines[keyLines[0]]) : -1;
+        const key = new RegExp(`^(["']?)${_.escapeRegExp(segment)}\\1\\s*:`);
+        const i = keyLines.find((i) => contentIndentOf(lines[i]) === keyIndent && key.test(lines[i].slice(keyIndent)));
+        if (i !== undefined) {
+          next = { line: i, indent: keyIndent, item: false };
+        }
+      }
+      if (!next) {
+        break;
+      }
+      node = next;
+      found = next.line + 1;
+    }
+    return found;
+  }
+
+  /**
+   * Reads the source of a document file, undefined if it can't be read (i.e. the document was loaded from a URL)
+   *
+   * @private
+   * @static
+   * @param {string} file
+   * @returns {(string | undefined)}
+   * @memberof OpenAPIDefinitionValidator
+   */
+  private static readSource(file: string): string | undefined {
+    try {
+      return fs.readFileSync(file, 'utf8');
+    } catch (err) {
+      return undefined;
+    }
+  }
+}
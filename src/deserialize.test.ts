@@ -0,0 +1,458 @@
+import OpenAPIDeserializer from './deserialize';
+
+describe('OpenAPIDeserializer', () => {
+  describe('.getSerializedType', () => {
+    test('resolves primitive types', async () => {
+      expect(OpenAPIDeserializer.getSerializedType({ type: 'integer' })).toEqual('primitive');
+      expect(OpenAPIDeserializer.getSerializedType(undefined)).toEqual('primitive');
+    });
+
+    test('resolves array types', async () => {
+      expect(OpenAPIDeserializer.getSerializedType({ type: 'array', items: { type: 'string' } })).toEqual('array');
+      expect(OpenAPIDeserializer.getSerializedType({ type: ['array', 'null'], items: {} })).toEqual('array');
+    });
+
+    test('resolves object types', async () => {
+      expect(OpenAPIDeserializer.getSerializedType({ type: 'object' })).toEqual('object');
+      expect(OpenAPIDeserializer.getSerializedType({ properties: { a: { type: 'string' } } })).toEqual('object');
+    });
+  });
+
+  describe('.matchPathTemplate', () => {
+    test('extracts raw path parameter values', async () => {
+      const params = OpenAPIDeserializer.matchPathTemplate('/pets/{id}/hobbies/{hobbyId}', '/pets/1/hobbies/a%2Cb');
+      expect(params).toEqual({ id: '1', hobbyId: 'a%2Cb' });
+    });
+
+    test('returns null if path does not match', async () => {
+      expect(OpenAPIDeserializer.matchPathTemplate('/pets/{id}', '/humans/1')).toBe(null);
+    });
+  });
+
+  describe('.deserializePathParameter', () => {
+    const primitive = { type: 'integer' as const };
+    const array = { type: 'array' as const, items: { type: 'integer' as const } };
+    const object = { type: 'object' as const, properties: { role: { type: 'string' as const } } };
+
+    const cases: [string, boolean, object, string, unknown][] = [
+      ['simple', false, primitive, '5', '5'],
+      ['simple', false, array, '3,4,5', ['3', '4', '5']],
+      ['simple', false, object, 'role,admin,firstName,Alex', { role: 'admin', firstName: 'Alex' }],
+      ['simple', true, primitive, '5', '5'],
+      ['simple', true, array, '3,4,5', ['3', '4', '5']],
+      ['simple', true, object, 'role=admin,firstName=Alex', { role: 'admin', firstName: 'Alex' }],
+      ['label', false, primitive, '.5', '5'],
+      ['label', false, array, '.3,4,5', ['3', '4', '5']],
+      ['label', false, object, '.role,admin,firstName,Alex', { role: 'admin', firstName: 'Alex' }],
+      ['label', true, primitive, '.5', '5'],
+      ['label', true, array, '.3.4.5', ['3', '4', '5']],
+      ['label', true, object, '.role=admin.firstName=Alex', { role: 'admin', firstName: 'Alex' }],
+      ['matrix', false, primitive, ';id=5', '5'],
+      ['matrix', false, array, ';id=3,4,5', ['3', '4', '5']],
+      ['matrix', false, object, ';id=role,admin,firstName,Alex', { role: 'admin', firstName: 'Alex' }],
+      ['matrix', true, primitive, ';id=5', '5'],
+      ['matrix', true, array, ';id=3;id=4;id=5', ['3', '4', '5']],
+      ['matrix', true, object, ';role=admin;firstName=Alex', { role: 'admin', firstName: 'Alex' }],
+    ];
+
+    test.each(cases)(
+      'deserializes style=%s, explode=%s, schema=%j value %s',
+      (style, explode, schema, raw, expected) => {
+        const parameter = { name: 'id', in: 'path', required: true, style, explode, schema };
+        expect(OpenAPIDeserializer.deserializePathParameter(parameter, raw)).toEqual(expected);
+      },
+    );
+
+    test('decodes values after splitting', async () => {
+      const parameter = { name: 'id', in: 'path', schema: { type: 'array' as const, items: {} } };
+      expect(OpenAPIDeserializer.deserializePathParameter(parameter, 'a%2Cb,c%20d')).toEqual(['a,b', 'c d']);
+    });
+
+    test('returns empty matrix values', async () => {
+      const parameter = { name: 'id', in: 'path', style: 'matrix', schema: { type: 'array' as const, items: {} } };
+      expect(OpenAPIDeserializer.deserializePathParameter(parameter, ';id')).toEqual([]);
+    });
+
+    test('returns raw values not matching the style prefix as-is', async () => {
+      const parameter = { name: 'id', in: 'path', style: 'label', schema: primitive };
+      expect(OpenAPIDeserializer.deserializePathParameter(parameter, '5')).toEqual('5');
+    });
+  });
+
+  describe('.deserializeQueryParameters', () => {
+    const objectSchema = {
+      type: 'object' as const,
+      properties: { role: { type: 'string' as const }, firstName: { type: 'string' as const } },
+    };
+
+    test('builds deepObject parameters from flat keys', async () => {
+      const parameters = [{ name: 'id', in: 'query', style: 'deepObject', explode: true, schema: objectSchema }];
+      const query = OpenAPIDeserializer.deserializeQueryParameters(
+        { 'id[role]': 'admin', 'id[firstName]': 'Alex', other: '1' },
+        parameters,
+      );
+      expect(query).toEqual({ id: { role: 'admin', firstName: 'Alex' }, other: '1' });
+    });
+
+    test('keeps deepObject parameters already parsed by qs', async () => {
+      const parameters = [{ name: 'id', in: 'query', style: 'deepObject', explode: true, schema: objectSchema }];
+      const query = OpenAPIDeserializer.deserializeQueryParameters({ id: { role: 'admin' } }, parameters);
+      expect(query).toEqual({ id: { role: 'admin' } });
+    });
+
+    test('folds properties of exploded form objects', async () => {
+      const parameters = [
+        { name: 'id', in: 'query', schema: objectSchema },
+        { name: 'limit', in: 'query', schema: { type: 'integer' as const } },
+      ];
+      const query = OpenAPIDeserializer.deserializeQueryParameters(
+        { role: 'admin', firstName: 'Alex', limit: '10', unknown: '1' },
+        parameters,
+      );
+      expect(query).toEqual({ id: { role: 'admin', firstName: 'Alex' }, limit: '10', unknown: '1' });
+    });
+
+    test('folds unknown keys into a single free-form object', async () => {
+      const parameters = [
+        { name: 'filter', in: 'query', schema: { type: 'object' as const, additionalProperties: true } },
+        { name: 'limit', in: 'query', schema: { type: 'integer' as const } },
+      ];
+      const query = OpenAPIDeserializer.deserializeQueryParameters({ a: '1', b: '2', limit: '10' }, parameters);
+      expect(query).toEqual({ filter: { a: '1', b: '2' }, limit: '10' });
+    });
+
+    test('does not fold unknown keys with multiple free-form objects', async () => {
+      const freeForm = { type: 'object' as const, additionalProperties: true };
+      const parameters = [
+        { name: 'a', in: 'query', schema: freeForm },
+        { name: 'b', in: 'query', schema: freeForm },
+      ];
+      const query = OpenAPIDeserializer.deserializeQueryParameters({ key: '1' }, parameters);
+      expect(query).toEqual({ key: '1' });
+    });
+
+    test('splits non-exploded form objects', async () => {
+      const parameters = [{ name: 'id', in: 'query', explode: false, schema: objectSchema }];
+      const query = OpenAPIDeserializer.deserializeQueryParameters({ id: 'role,admin,firstName,Alex' }, parameters);
+      expect(query).toEqual({ id: { role: 'admin', firstName: 'Alex' } });
+    });
+
+    test('splits spaceDelimited arrays, which are not exploded by default', async () => {
+      const parameters = [
+        { name: 'ids', in: 'query', style: 'spaceDelimited', schema: { type: 'array' as const, items: {} } },
+      ];
+      const query = OpenAPIDeserializer.deserializeQueryParameters({ ids: '1 2 3' }, parameters);
+      expect(query).toEqual({ ids: ['1', '2', '3'] });
+    });
+
+    test('does not split non-exploded primitives', async () => {
+      const parameters = [{ name: 'q', in: 'query', explode: false, schema: { type: 'string' as const } }];
+      const query = OpenAPIDeserializer.deserializeQueryParameters({ q: 'hello,world' }, parameters);
+      expect(query).toEqual({ q: 'hello,world' });
+    });
+
+    test('keeps + as-is with allowReserved', async () => {
+      const parameters = [{ name: 'q', in: 'query', allowReserved: true, schema: { type: 'string' as const } }];
+      const query = OpenAPIDeserializer.deserializeQueryParameters(
+        { q: 'a b', other: 'c d' },
+        parameters,
+        'q=a+b&other=c+d',
+      );
+      expect(query).toEqual({ q: 'a+b', other: 'c d' });
+    });
+
+    test('leaves malformed JSON content values as-is', async () => {
+      const parameters = [{ name: 'filter', in: 'query', content: { 'application/json': {} } }];
+      const query = OpenAPIDeserializer.deserializeQueryParameters({ filter: '{invalid' }, parameters);
+      expect(query).toEqual({ filter: '{invalid' });
+    });
+  });
+
+  describe('.deserializeHeaderParameters', () => {
+    const objectSchema = {
+      type: 'object' as const,
+      properties: { role: { type: 'string' as const }, firstName: { type: 'string' as const } },
+    };
+
+    test('splits simple arrays', async () => {
+      const parameters = [{ name: 'X-Ids', in: 'header', schema: { type: 'array' as const, items: {} } }];
+      const headers = OpenAPIDeserializer.deserializeHeaderParameters({ 'x-ids': '1, 2,3' }, parameters);
+      expect(headers).toEqual({ 'x-ids': ['1', '2', '3'] });
+    });
+
+    test('joins repeated headers', async () => {
+      const parameters = [{ name: 'X-Ids', in: 'header', schema: { type: 'array' as const, items: {} } }];
+      const headers = OpenAPIDeserializer.deserializeHeaderParameters({ 'x-ids': ['1', '2,3'] }, parameters);
+      expect(headers).toEqual({ 'x-ids': ['1', '2', '3'] });
+    });
+
+    test('splits simple objects', async () => {
+      const parameters = [{ name: 'X-Meta', in: 'header', schema: objectSchema }];
+      const headers = OpenAPIDeserializer.deserializeHeaderParameters(
+        { 'x-meta': 'role,admin,firstName,Alex' },
+        parameters,
+      );
+      expect(headers).toEqual({ 'x-meta': { role: 'admin', firstName: 'Alex' } });
+    });
+
+    test('splits exploded simple objects', async () => {
+      const parameters = [{ name: 'X-Meta', in: 'header', explode: true, schema: objectSchema }];
+      const headers = OpenAPIDeserializer.deserializeHeaderParameters(
+        { 'x-meta': 'role=admin,firstName=Alex' },
+        parameters,
+      );
+      expect(headers).toEqual({ 'x-meta': { role: 'admin', firstName: 'Alex' } });
+    });
+
+    test('does not split primitives or undeclared headers', async () => {
+      const parameters = [{ name: 'X-Name', in: 'header', schema: { type: 'string' as const } }];
+      const headers = OpenAPIDeserializer.deserializeHeaderParameters(
+        { 'x-name': 'a,b', accept: 'text/html,application/json' },
+        parameters,
+      );
+      expect(headers).toEqual({ 'x-name': 'a,b', accept: 'text/html,application/json' });
+    });
+  });
+
+  describe('.deserializeCookieParameters', () => {
+    const objectSchema = {
+      type: 'object' as const,
+      properties: { role: { type: 'string' as const }, firstName: { type: 'string' as const } },
+    };
+
+    test('collects repeated cookies for exploded arrays', async () => {
+      const parameters = [{ name: 'id', in: 'cookie', schema: { type: 'array' as const, items: {} } }];
+      const cookies = OpenAPIDeserializer.deserializeCookieParameters(
+        { id: '3', a: 'b' },
+        parameters,
+        'id=3; a=b; id=4',
+      );
+      expect(cookies).toEqual({ id: ['3', '4'], a: 'b' });
+    });
+
+    test('splits non-exploded arrays', async () => {
+      const parameters = [{ name: 'id', in: 'cookie', explode: false, schema: { type: 'array' as const, items: {} } }];
+      const cookies = OpenAPIDeserializer.deserializeCookieParameters({ id: '3,4,5' }, parameters, 'id=3,4,5');
+      expect(cookies).toEqual({ id: ['3', '4', '5'] });
+    });
+
+    test('folds properties of exploded objects', async () => {
+      const parameters = [{ name: 'user', in: 'cookie', schema: objectSchema }];
+      const cookies = OpenAPIDeserializer.deserializeCookieParameters(
+        { role: 'admin', firstName: 'Alex', session: 'abc' },
+        parameters,
+        'role=admin; firstName=Alex; session=abc',
+      );
+      expect(cookies).toEqual({ user: { role: 'admin', firstName: 'Alex' }, session: 'abc' });
+    });
+
+    test('splits non-exploded objects', async () => {
+      const parameters = [{ name: 'user', in: 'cookie', explode: false, schema: objectSchema }];
+      const cookies = OpenAPIDeserializer.deserializeCookieParameters(
+        { user: 'role,admin,firstName,Alex' },
+        parameters,
+        'user=role,admin,firstName,Alex',
+      );
+      expect(cookies).toEqual({ user: { role: 'admin', firstName: 'Alex' } });
+    });
+  });
+
+  describe('.deserializeRequestBody', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        name: { type: 'string' as const },
+        tags: { type: 'array' as const, items: { type: 'string' as const } },
+        owner: { type: 'object' as const, properties: { name: { type: 'string' as const } } },
+      },
+    };
+
+    test('parses json bodies', async () => {
+      expect(OpenAPIDeserializer.deserializeRequestBody('{"name":"Garfield"}', 'application/json')).toEqual({
+        name: 'Garfield',
+      });
+    });
+
+    test('keeps bodies that are not json as-is', async () => {
+      expect(OpenAPIDeserializer.deserializeRequestBody('<Pet/>', 'application/xml')).toEqual('<Pet/>');
+    });
+
+    test('parses urlencoded bodies', async () => {
+      const body = OpenAPIDeserializer.deserializeRequestBody(
+        'name=Garfield+the+Cat&tags=cat&tags=lazy',
+        'application/x-www-form-urlencoded; charset=utf-8',
+        { schema },
+      );
+      expect(body).toEqual({ name: 'Garfield the Cat', tags: ['cat', 'lazy'] });
+    });
+
+    test('converts urlencoded values to the types of their properties', async () => {
+      const body = OpenAPIDeserializer.deserializeRequestBody(
+        'name=5&age=5&weight=4.5&lazy=true&scores=1,2&owner[age]=40&tag=lazy',
+        'application/x-www-form-urlencoded',
+        {
+          schema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              age: { type: 'integer' },
+              weight: { type: ['number', 'null'] },
+              lazy: { type: 'boolean' },
+              scores: { type: 'array', items: { type: 'integer' } },
+              owner: { type: 'object', properties: { age: { type: 'integer' } } },
+              tag: { type: 'integer' },
+            },
+          },
+          encoding: { scores: { style: 'form', explode: false }, owner: { style: 'deepObject', explode: true } },
+        },
+      );
+      expect(body).toEqual({
+        name: '5',
+        age: 5,
+        weight: 4.5,
+        lazy: true,
+        scores: [1, 2],
+        owner: { age: 40 },
+        tag: 'lazy',
+      });
+    });
+
+    test('parses urlencoded bodies from buffers', async () => {
+      const body = OpenAPIDeserializer.deserializeRequestBody(
+        Buffer.from('name=Garfield'),
+        'application/x-www-form-urlencoded',
+      );
+      expect(body).toEqual({ name: 'Garfield' });
+    });
+
+    test('respects style, explode and contentType of the encoding object in urlencoded bodies', async () => {
+      const body = OpenAPIDeserializer.deserializeRequestBody(
+        'tags=cat|lazy&owner=%7B%22name%22%3A%22Jon%22%7D',
+        'application/x-www-form-urlencoded',
+        {
+          schema,
+          encoding: { tags: { style: 'pipeDelimited', explode: false }, owner: { contentType: 'application/json' } },
+        },
+      );
+      expect(body).toEqual({ tags: ['cat', 'lazy'], owner: { name: 'Jon' } });
+    });
+
+    test('parses multipart bodies', async () => {
+      const body = OpenAPIDeserializer.deserializeRequestBody(
+        [
+          '--xyz',
+          'Content-Disposition: form-data; name="name"',
+          '',
+          'Gärfield',
+          '--xyz',
+          'Content-Disposition: form-data; name="tags"',
+          '',
+          'cat',
+          '--xyz',
+          'Content-Disposition: form-data; name="owner"',
+          '',
+          '{"name":"Jon"}',
+          '--xyz',
+          'Content-Disposition: form-data; name="photo"; filename="garfield.txt"',
+          'Content-Type: text/plain',
+          '',
+          'lasagna',
+          '--xyz--',
+          '',
+        ].join('\r\n'),
+        'multipart/form-data; boundary="xyz"',
+        { schema },
+      );
+      expect(body).toEqual({ name: 'Gärfield', tags: ['cat'], owner: { name: 'Jon' }, photo: 'lasagna' });
+    });
+
+    test('keeps the bytes of files and binary parts in multipart bodies', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0xfe, 0x00, 0x80]);
+      const part = (headers: string[], content: Buffer) =>
+        Buffer.concat([Buffer.from(['--xyz', ...headers, '', ''].join('\r\n')), content, Buffer.from('\r\n')]);
+      const body = OpenAPIDeserializer.deserializeRequestBody(
+        Buffer.concat([
+          part(['Content-Disposition: form-data; name="file"; filename="garfield.png"'], png),
+          part(['Content-Disposition: form-data; name="thumbnail"', 'Content-Type: image/png'], png),
+          part(['Content-Disposition: form-data; name="raw"'], png),
+          part(['Content-Disposition: form-data; name="name"'], Buffer.from('Gärfield')),
+          Buffer.from('--xyz--\r\n'),
+        ]),
+        'multipart/form-data; boundary=xyz',
+        { schema: { ...schema, properties: { ...schema.properties, raw: { type: 'string', format: 'binary' } } } },
+      );
+      expect(Buffer.from(body.file, 'latin1')).toEqual(png);
+      expect(Buffer.from(body.thumbnail, 'latin1')).toEqual(png);
+      expect(Buffer.from(body.raw, 'latin1')).toEqual(png);
+      expect(body.name).toEqual('Gärfield');
+    });
+
+    test('converts multipart values to the types of their properties', async () => {
+      const body = OpenAPIDeserializer.deserializeRequestBody(
+        [
+          '--xyz',
+          'Content-Disposition: form-data; name="age"',
+          '',
+          '5',
+          '--xyz',
+          'Content-Disposition: form-data; name="lazy"',
+          '',
+          'false',
+          '--xyz',
+          'Content-Disposition: form-data; name="scores"',
+          '',
+          '1',
+          '--xyz',
+          'Content-Disposition: form-data; name="scores"',
+          '',
+          '2',
+          '--xyz--',
+        ].join('\r\n'),
+        'multipart/form-data; boundary=xyz',
+        {
+          schema: {
+            type: 'object',
+            properties: {
+              age: { type: 'integer' },
+              lazy: { type: 'boolean' },
+              scores: { type: 'array', items: { type: 'number' } },
+            },
+          },
+        },
+      );
+      expect(body).toEqual({ age: 5, lazy: false, scores: [1, 2] });
+    });
+
+    test('respects contentType of the encoding object in multipart bodies', async () => {
+      const body = OpenAPIDeserializer.deserializeRequestBody(
+        ['--xyz', 'Content-Disposition: form-data; name="name"', '', '"Garfield"', '--xyz--'].join('\r\n'),
+        'multipart/form-data; boundary=xyz',
+        { schema, encoding: { name: { contentType: 'application/json' } } },
+      );
+      expect(body).toEqual({ name: 'Garfield' });
+    });
+  });
+
+  describe('.parseMultipart', () => {
+    test('returns filenames and content types of parts', async () => {
+      const fields = OpenAPIDeserializer.parseMultipart(
+        Buffer.from(
+          [
+            'preamble',
+            '--xyz',
+            'Content-Disposition: form-data; name="photo"; filename="garfield.txt"',
+            'Content-Type: text/plain',
+            '',
+            'line 1\r\nline 2',
+            '--xyz--',
+            'epilogue',
+          ].join('\r\n'),
+        ),
+        'xyz',
+      );
+      expect(fields).toEqual([
+        { name: 'photo', filename: 'garfield.txt', contentType: 'text/plain', value: 'line 1\r\nline 2' },
+      ]);
+    });
+  });
+});
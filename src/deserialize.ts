@@ -0,0 +1,721 @@
+// library code, any is fine
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as _ from 'lodash';
+import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { parse as parseQuery } from 'qs';
+
+type ParameterObject = OpenAPIV3_1.ParameterObject | OpenAPIV3.ParameterObject;
+type SchemaObject = OpenAPIV3_1.SchemaObject | OpenAPIV3.SchemaObject;
+type MediaTypeObject = OpenAPIV3_1.MediaTypeObject | OpenAPIV3.MediaTypeObject;
+
+/**
+ * The shape of a value as described by its schema, which determines how it is serialized
+ */
+export type SerializedType = 'primitive' | 'array' | 'object';
+
+/**
+ * A single named part of a multipart/form-data payload
+ */
+export interface MultipartField {
+  name: string;
+  filename?: string;
+  contentType?: string;
+  /**
+   * utf-8 decoded text, or a binary string with one character per byte for files and binary parts, see
+   * OpenAPIDeserializer.parseMultipart
+   */
+  value: string;
+}
+
+// compiled path template patterns, created once per path template
+const compilePathTemplate = _.memoize((template: string): { pattern: RegExp; names: string[] } => {
+  const names: string[] = [];
+  const pattern = template
+    .split(/\{(.*?)\}/)
+    .map((part, i) => {
+      if (i % 2 === 0) {
+        return _.escapeRegExp(part);
+      }
+      names.push(part);
+      return '([^/]+)';
+    })
+    .join('');
+  return { pattern: new RegExp(`^${pattern}$`), names };
+});
+
+export default class OpenAPIDeserializer {
+  /**
+   * Resolves whether a schema describes a primitive, array or object value
+   *
+   * @param {SchemaObject} [schema]
+   * @returns {SerializedType}
+   */
+  public static getSerializedType(schema?: SchemaObject): SerializedType {
+    if (!schema) {
+      return 'primitive';
+    }
+
+    // OpenAPI 3.1 allows an array of types i.e. ['array', 'null']
+    const types = _.flatten([schema.type]);
+    if (types.includes('array') || ('items' in schema && schema.items)) {
+      return 'array';
+    }
+    if (types.includes('object') || schema.properties || schema.additionalProperties) {
+      return 'object';
+    }
+    return 'primitive';
+  }
+
+  /**
+   * Decodes a percent-encoded value, returning the value as-is if it is malformed
+   *
+   * @param {string} value
+   * @returns {string}
+   */
+  public static decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Extracts raw, still encoded path parameter values from a path using an OpenAPI path template
+   *
+   * @param {string} template - path template i.e. /pets/{id}
+   * @param {string} path - path relative to the api root i.e. /pets/1
+   * @returns {({ [name: string]: string } | null)} null if path does not match the template
+   */
+  public static matchPathTemplate(template: string, path: string): { [name: string]: string } | null {
+    const { pattern, names } = compilePathTemplate(template);
+    const match = pattern.exec(path);
+    if (!match) {
+      return null;
+    }
+    return _.fromPairs(names.map((name, i) => [name, match[i + 1]]));
+  }
+
+  /**
+   * Deserializes a raw path parameter value according to the parameter's style, explode and schema
+   *
+   * Supports styles simple (default), label and matrix
+   * https://spec.openapis.org/oas/v3.1.0#style-examples
+   *
+   * @param {ParameterObject} parameter
+   * @param {string} raw - raw, still encoded path parameter value
+   * @returns {*}
+   */
+  public static deserializePathParameter(parameter: ParameterObject, raw: string): any {
+    const type = this.getSerializedType(parameter.schema as SchemaObject);
+    const explode = Boolean(parameter.explode);
+    const style = parameter.style || 'simple';
+
+    if (style === 'label') {
+      if (!raw.startsWith('.')) {
+        return this.decode(raw);
+      }
+      const value = raw.slice(1);
+      // exploded label arrays and objects are separated by dots i.e. .3.4.5 or .role=admin.name=Alex
+      return explode && type !== 'primitive'
+        ? this.deserializeDelimited(value, type, '.', true)
+        : this.deserializeDelimited(value, type, ',', explode);
+    }
+
+    if (style === 'matrix') {
+      if (!raw.startsWith(';')) {
+        return this.decode(raw);
+      }
+      if (explode && type !== 'primitive') {
+        // exploded matrix arrays repeat the name i.e. ;id=3;id=4, objects use their keys i.e. ;role=admin;name=Alex
+        const pairs = raw
+          .slice(1)
+          .split(';')
+          .map((pair) => pair.split('='));
+        if (type === 'array') {
+          return pairs.map(([, value]) => this.decode(value ?? ''));
+        }
+        return _.fromPairs(pairs.map(([key, value]) => [this.decode(key), this.decode(value ?? '')]));
+      }
+      // strip ;name= prefix
+      const prefix = `;${parameter.name}`;
+      const value = raw.startsWith(`${prefix}=`) ? raw.slice(prefix.length + 1) : raw === prefix ? '' : raw.slice(1);
+      return this.deserializeDelimited(value, type, ',', false);
+    }
+
+    return this.deserializeDelimited(raw, type, ',', explode);
+  }
+
+  /**
+   * Deserializes a delimited value into a primitive, array or object
+   *
+   * Exploded objects are serialized as key=value pairs, non-exploded objects as alternating keys and values
+   *
+   * @param {string} value - raw value
+   * @param {SerializedType} type
+   * @param {string} delimiter
+   * @param {boolean} explode
+   * @param {boolean} [encoded] - whether the value is percent-encoded. Values that are not are trimmed instead
+   * @returns {*}
+   */
+  public static deserializeDelimited(
+    value: string,
+    type: SerializedType,
+    delimiter: string,
+    explode: boolean,
+    encoded = true,
+  ): any {
+    const decode = (part: string) => (encoded ? this.decode(part) : part.trim());
+    if (type === 'primitive') {
+      return decode(value);
+    }
+    const parts = value === '' ? [] : value.split(delimiter);
+    if (type === 'array') {
+      return parts.map(decode);
+    }
+    if (explode) {
+      return _.fromPairs(
+        parts.map((part) => {
+          const [key, ...rest] = part.split('=');
+          return [decode(key), decode(rest.join('='))];
+        }),
+      );
+    }
+    return _.fromPairs(_.chunk(parts, 2).map(([key, val]) => [decode(key), decode(val ?? '')]));
+  }
+
+  /**
+   * Splits a raw query string into key value pairs, without decoding the values
+   *
+   * @param {string} queryString
+   * @returns {[string, string][]}
+   */
+  public static parseQueryPairs(queryString: string): [string, string][] {
+    return queryString
+      .replace(/^\?/, '')
+      .split('&')
+      .filter(Boolean)
+      .map((pair) => {
+        const index = pair.indexOf('=');
+        const key = index < 0 ? pair : pair.slice(0, index);
+        const value = index < 0 ? '' : pair.slice(index + 1);
+        return [this.decode(key.replace(/\+/g, ' ')), value];
+      });
+  }
+
+  /**
+   * Deserializes query parameters according to each parameter's style, explode, allowReserved and schema
+   *
+   * - content application/json values are parsed as JSON
+   * - non-exploded arrays and objects are split by the style delimiter (form, spaceDelimited, pipeDelimited)
+   * - deepObject parameters are built from name[key]=value pairs
+   * - exploded form objects are built from the top-level keys that belong to the object
+   * - allowReserved values keep reserved characters such as + as-is
+   *
+   * https://spec.openapis.org/oas/v3.1.0#style-values
+   *
+   * @param {object} query - query object parsed with qs, or passed as an object in the request
+   * @param {ParameterObject[]} parameters - operation parameters
+   * @param {string} [queryString] - raw query string, if the query was passed as a string
+   * @returns {object}
+   */
+  public static deserializeQueryParameters(
+    query: { [key: string]: any },
+    parameters: ParameterObject[],
+    queryString?: string,
+  ): { [key: string]: any } {
+    const rawPairs = queryString ? this.parseQueryPairs(queryString) : [];
+    const queryParameters = parameters.filter((param) => param && !('$ref' in param) && param.in === 'query');
+    const names = queryParameters.map(({ name }) => name);
+
+    // unknown keys are only folded into a free-form object if there is no doubt which parameter they belong to
+    const freeFormParameters = queryParameters.filter(
+      (param) =>
+        this.isExplodedFormObject(param) && Boolean((param.schema as SchemaObject | undefined)?.additionalProperties),
+    );
+
+    for (const parameter of queryParameters) {
+      const { name } = parameter;
+      const schema = parameter.schema as SchemaObject | undefined;
+      const type = this.getSerializedType(schema);
+      const style = parameter.style || 'form';
+      const explode = parameter.explode ?? style === 'form';
+
+      if (parameter.content && parameter.content['application/json']) {
+        const rawValue = query[name];
+        if (typeof rawValue === 'string') {
+          try {
+            query[name] = JSON.parse(rawValue);
+          } catch {
+            // suppress json parsing errors
+            // we will emit error if validation requires it later
+          }
+        }
+        continue;
+      }
+
+      if (parameter.allowReserved) {
+        // reserved characters are not percent-encoded, so + is not a space
+        const values = rawPairs.filter(([key]) => key === name).map(([, value]) => this.decode(value));
+        if (values.length) {
+          query[name] = values.length === 1 ? values[0] : values;
+        }
+      }
+
+      if (type === 'object' && style === 'deepObject') {
+        this.foldDeepObject(query, name);
+        continue;
+      }
+
+      if (this.isExplodedFormObject(parameter)) {
+        const properties = Object.keys(schema?.properties || {});
+        const foldUnknown = freeFormParameters.length === 1 && freeFormParameters[0] === parameter;
+        const keys = Object.keys(query).filter(
+          (key) => !names.includes(key) && (properties.includes(key) || foldUnknown),
+        );
+        if (keys.length) {
+          query[name] = { ...(_.isPlainObject(query[name]) ? query[name] : {}), ..._.pick(query, keys) };
+          keys.forEach((key) => delete query[key]);
+        }
+        continue;
+      }
+
+      if (explode || query[name] === undefined || (type === 'primitive' && schema)) {
+        continue;
+      }
+
+      // handle parameter parsing for non-exploded arrays and objects
+      const rawValue = query[name];
+      if (Array.isArray(rawValue) && rawValue.length > 1) {
+        // param has already been decoded (type coercion flow)
+        continue;
+      }
+      const value = Array.isArray(rawValue) ? rawValue[0] : rawValue;
+      if (typeof value !== 'string') {
+        continue;
+      }
+      let decoded = value.replace(/%2C/g, ',');
+      if (style === 'spaceDelimited') {
+        decoded = decoded.replace(/ /g, ',').replace(/%20/g, ',');
+      }
+      if (style === 'pipeDelimited') {
+        decoded = decoded.replace(/\|/g, ',').replace(/%7C/g, ',');
+      }
+      const parts = decoded === '' ? [] : decoded.split(',');
+      query[name] = type === 'object' ? _.fromPairs(_.chunk(parts, 2).map(([key, val]) => [key, val ?? ''])) : parts;
+    }
+
+    return query;
+  }
+
+  /**
+   * Deserializes header parameters according to each parameter's explode and schema
+   *
+   * Headers only support style simple, i.e. X-Ids: 1,2,3 or X-Meta: role=admin,name=Alex with explode
+   *
+   * @param {object} headers - headers with lowercase keys
+   * @param {ParameterObject[]} parameters - operation parameters
+   * @returns {object}
+   */
+  public static deserializeHeaderParameters(
+    headers: { [header: string]: any },
+    parameters: ParameterObject[],
+  ): { [header: string]: any } {
+    for (const parameter of parameters) {
+      if (!parameter || '$ref' in parameter || parameter.in !== 'header') {
+        continue;
+      }
+      // header names are case-insensitive
+      const name = parameter.name.toLowerCase();
+      const rawValue = headers[name];
+      if (rawValue === undefined) {
+        continue;
+      }
+
+      // repeated headers are equivalent to a single comma separated header
+      const value = Array.isArray(rawValue) && rawValue.every(_.isString) ? rawValue.join(',') : rawValue;
+      if (typeof value !== 'string') {
+        // already deserialized
+        continue;
+      }
+
+      if (parameter.content && parameter.content['application/json']) {
+        try {
+          headers[name] = JSON.parse(value);
+        } catch {
+          // suppress json parsing errors
+          // we will emit error if validation requires it later
+        }
+        continue;
+      }
+
+      const type = this.getSerializedType(parameter.schema as SchemaObject | undefined);
+      if (type !== 'primitive') {
+        headers[name] = this.deserializeDelimited(value, type, ',', Boolean(parameter.explode), false);
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * Deserializes cookie parameters according to each parameter's explode and schema
+   *
+   * Cookies only support style form, which is exploded by default:
+   * - exploded arrays are repeated cookies, i.e. id=3; id=4
+   * - exploded objects are built from the cookies that belong to the object, i.e. role=admin; name=Alex
+   * - non-exploded arrays and objects are comma separated, i.e. id=3,4 or id=role,admin,name,Alex
+   *
+   * @param {object} cookies - cookies parsed from the cookie header
+   * @param {ParameterObject[]} parameters - operation parameters
+   * @param {string} [cookieHeader] - raw cookie header
+   * @returns {object}
+   */
+  public static deserializeCookieParameters(
+    cookies: { [cookie: string]: any },
+    parameters: ParameterObject[],
+    cookieHeader?: string,
+  ): { [cookie: string]: any } {
+    const cookieParameters = parameters.filter((param) => param && !('$ref' in param) && param.in === 'cookie');
+    const names = cookieParameters.map(({ name }) => name);
+
+    for (const parameter of cookieParameters) {
+      const { name } = parameter;
+      const schema = parameter.schema as SchemaObject | undefined;
+      const type = this.getSerializedType(schema);
+      const explode = parameter.explode ?? true;
+
+      if (type === 'primitive') {
+        continue;
+      }
+
+      if (explode && type === 'object') {
+        const properties = Object.keys(schema?.properties || {});
+        const keys = Object.keys(cookies).filter((key) => !names.includes(key) && properties.includes(key));
+        if (keys.length) {
+          cookies[name] = { ...(_.isPlainObject(cookies[name]) ? cookies[name] : {}), ..._.pick(cookies, keys) };
+          keys.forEach((key) => delete cookies[key]);
+        }
+        continue;
+      }
+
+      if (typeof cookies[name] !== 'string') {
+        continue;
+      }
+
+      if (explode) {
+        // cookie parsers only keep the first value of a repeated cookie
+        const values = (cookieHeader || '')
+          .split(';')
+          .map((pair) => pair.trim().split('='))
+          .filter(([key]) => key === name)
+          .map(([, ...value]) => this.decode(value.join('=')));
+        cookies[name] = values.length ? values : [cookies[name]];
+        continue;
+      }
+
+      cookies[name] = this.deserializeDelimited(cookies[name], type, ',', false, false);
+    }
+    return cookies;
+  }
+
+  /**
+   * Resolves the media type of a Content-Type header, without parameters such as charset or boundary
+   *
+   * @param {string} [contentType] - i.e. multipart/form-data; boundary=something
+   * @returns {string} i.e. multipart/form-data
+   */
+  public static getMediaType(contentType?: string | string[]): string | undefined {
+    const header = _.flatten([contentType])[0];
+    return header ? header.split(';')[0].trim().toLowerCase() : undefined;
+  }
+
+  /**
+   * Whether a media type is text, which is decoded as utf-8 in request bodies and multipart parts
+   *
+   * Any other media type is binary, and its bytes are kept intact
+   *
+   * @param {string} [contentType] - i.e. application/json; charset=utf-8
+   * @returns {boolean}
+   */
+  public static isTextMediaType(contentType?: string | string[]): boolean {
+    const type = this.getMediaType(contentType) || '';
+    return /^text\/|^application\/(.+\+)?(json|xml)$|^application\/x-www-form-urlencoded$/.test(type);
+  }
+
+  /**
+   * Deserializes a raw request body based on its Content-Type
+   *
+   * - application/x-www-form-urlencoded bodies are parsed like query strings, with the style and explode of each
+   *   property read from the encoding object
+   * - multipart/form-data bodies are parsed into their named parts. Repeated parts become arrays and parts with
+   *   a JSON content type are parsed as JSON
+   * - any other string body is parsed as JSON if possible
+   *
+   * https://spec.openapis.org/oas/v3.1.0#encoding-object
+   *
+   * @param {*} body - raw request body
+   * @param {string} [contentType] - Content-Type header of the request
+   * @param {MediaTypeObject} [mediaType] - media type object of the operation request body for the Content-Type
+   * @returns {*}
+   */
+  public static deserializeRequestBody(body: any, contentType?: string | string[], mediaType?: MediaTypeObject): any {
+    const isRaw = typeof body === 'string' || Buffer.isBuffer(body);
+    const type = this.getMediaType(contentType);
+
+    if (isRaw && type === 'application/x-www-form-urlencoded') {
+      const payload = body.toString();
+      const parameters = this.getEncodingParameters(mediaType);
+      const form = this.deserializeQueryParameters(parseQuery(payload), parameters, payload);
+      for (const { name, schema } of parameters) {
+        if (schema && form[name] !== undefined) {
+          form[name] = this.toSchemaType(form[name], schema as SchemaObject);
+        }
+      }
+      return form;
+    }
+
+    if (isRaw && type === 'multipart/form-data') {
+      const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(_.flatten([contentType])[0]);
+      if (boundary) {
+        const fields = this.parseMultipart(
+          body,
+          boundary[1] || boundary[2].trim(),
+          this.getBinaryProperties(mediaType),
+        );
+        return this.deserializeMultipart(fields, mediaType);
+      }
+    }
+
+    if (body && typeof body !== 'object') {
+      try {
+        // attempt to parse json
+        return JSON.parse(body.toString());
+      } catch {
+        // suppress json parsing errors
+        // we will emit error if validation requires it later
+      }
+    }
+    return body;
+  }
+
+  /**
+   * Splits a multipart/form-data payload into its named parts
+   *
+   * Text parts are decoded as utf-8 strings. Files, parts with a non-text content type and the named binary parts are
+   * kept as binary strings with one character per byte, so their contents stay intact, i.e. Buffer.from(value, 'latin1')
+   *
+   * @param {(string | Buffer)} body
+   * @param {string} boundary
+   * @param {string[]} [binaryFields] - names of parts to keep binary, i.e. properties with format: binary
+   * @returns {MultipartField[]}
+   */
+  public static parseMultipart(body: string | Buffer, boundary: string, binaryFields: string[] = []): MultipartField[] {
+    // split as latin1 to keep byte offsets intact, then decode each part separately
+    const raw = (Buffer.isBuffer(body) ? body : Buffer.from(body)).toString('latin1');
+    const fields: MultipartField[] = [];
+
+    for (const part of raw.split(`--${boundary}`).slice(1)) {
+      if (part.startsWith('--')) {
+        // closing delimiter
+        break;
+      }
+      const separator = part.indexOf('\r\n\r\n');
+      if (separator < 0) {
+        continue;
+      }
+      const headers = _.fromPairs(
+        part
+          .slice(0, separator)
+          .split('\r\n')
+          .filter(Boolean)
+          .map((line) => {
+            const index = line.indexOf(':');
+            return [line.slice(0, index).trim().toLowerCase(), line.slice(index + 1).trim()];
+          }),
+      );
+      const disposition = headers['content-disposition'] || '';
+      const name = /\bname="([^"]*)"/i.exec(disposition);
+      if (!name) {
+        continue;
+      }
+      const filename = /\bfilename="([^"]*)"/i.exec(disposition);
+      const content = part.slice(separator + 4).replace(/\r\n$/, '');
+      const contentType = headers['content-type'];
+      const isBinary =
+        Boolean(filename) || (contentType && !this.isTextMediaType(contentType)) || binaryFields.includes(name[1]);
+
+      fields.push({
+        name: name[1],
+        ...(filename ? { filename: filename[1] } : {}),
+        ...(contentType ? { contentType } : {}),
+        value: isBinary ? content : Buffer.from(content, 'latin1').toString('utf8'),
+      });
+    }
+    return fields;
+  }
+
+  /**
+   * Builds a request body object from multipart/form-data parts according to the schema and encoding object
+   *
+   * Object properties and parts with a JSON content type are parsed as JSON, array properties collect repeated parts
+   *
+   * @param {MultipartField[]} fields
+   * @param {MediaTypeObject} [mediaType]
+   * @returns {object}
+   */
+  private static deserializeMultipart(fields: MultipartField[], mediaType?: MediaTypeObject): { [key: string]: any } {
+    const schema = mediaType?.schema as SchemaObject | undefined;
+    const body: { [key: string]: any } = {};
+
+    for (const [name, parts] of _.entries(_.groupBy(fields, 'name'))) {
+      const propertySchema = schema?.properties?.[name] as SchemaObject | undefined;
+      const type = this.getSerializedType(propertySchema);
+      const encodingContentType = mediaType?.encoding?.[name]?.contentType;
+
+      const values = parts.map((part) => {
+        // objects are sent as application/json by default
+        const partType = this.getMediaType(encodingContentType || part.contentType) || '';
+        const isJson = /^application\/(.+\+)?json$/.test(partType) || (!encodingContentType && type === 'object');
+        if (isJson && !part.filename) {
+          try {
+            return JSON.parse(part.value);
+          } catch {
+            // suppress json parsing errors
+            // we will emit error if validation requires it later
+          }
+        }
+        return this.toSchemaType(part.value, type === 'array' ? this.getItemsSchema(propertySchema) : propertySchema);
+      });
+
+      body[name] = type === 'array' || (!propertySchema && values.length > 1) ? values : values[0];
+    }
+    return body;
+  }
+
+  /**
+   * Converts string values of a form body to the primitive types of their schema, i.e. '5' to 5 for type: integer
+   *
+   * Form bodies only carry strings. Arrays and objects are converted item by item, and values that don't convert
+   * cleanly are kept as strings so validation reports them.
+   *
+   * @param {*} value
+   * @param {SchemaObject} [schema]
+   * @returns {*}
+   */
+  private static toSchemaType(value: any, schema?: SchemaObject): any {
+    if (!schema) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toSchemaType(item, this.getItemsSchema(schema)));
+    }
+    if (_.isPlainObject(value)) {
+      return _.mapValues(value, (item, key) => this.toSchemaType(item, schema.properties?.[key] as SchemaObject));
+    }
+    if (typeof value !== 'string') {
+      return value;
+    }
+    const types = _.flatten([schema.type]);
+    if (types.includes('string')) {
+      return value;
+    }
+    if ((types.includes('integer') || types.includes('number')) && value.trim() && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (types.includes('boolean') && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    return value;
+  }
+
+  /**
+   * The items schema of an array schema
+   *
+   * @param {SchemaObject} [schema]
+   * @returns {(SchemaObject | undefined)}
+   */
+  private static getItemsSchema(schema?: SchemaObject): SchemaObject | undefined {
+    return (schema && 'items' in schema ? schema.items : undefined) as SchemaObject | undefined;
+  }
+
+  /**
+   * Names of multipart body properties that are binary, by their format: binary schema or non-text encoding contentType
+   *
+   * @param {MediaTypeObject} [mediaType]
+   * @returns {string[]}
+   */
+  private static getBinaryProperties(mediaType?: MediaTypeObject): string[] {
+    const schema = mediaType?.schema as SchemaObject | undefined;
+    return _.keys(schema?.properties).filter((name) => {
+      const propertySchema = schema.properties[name] as SchemaObject;
+      const items = (propertySchema?.type === 'array' ? propertySchema.items : undefined) as SchemaObject | undefined;
+      const contentType = mediaType?.encoding?.[name]?.contentType;
+      return (
+        propertySchema?.format === 'binary' ||
+        items?.format === 'binary' ||
+        (contentType !== undefined && !this.isTextMediaType(contentType))
+      );
+    });
+  }
+
+  /**
+   * Describes the properties of a form body as query parameters, so they can be deserialized the same way
+   *
+   * @param {MediaTypeObject} [mediaType]
+   * @returns {ParameterObject[]}
+   */
+  private static getEncodingParameters(mediaType?: MediaTypeObject): ParameterObject[] {
+    const schema = mediaType?.schema as SchemaObject | undefined;
+    return _.map(schema?.properties || {}, (propertySchema, name): OpenAPIV3.ParameterObject => {
+      const encoding = mediaType?.encoding?.[name] || {};
+      const isJson = /^application\/(.+\+)?json$/.test(this.getMediaType(encoding.contentType) || '');
+      return {
+        name,
+        in: 'query',
+        ...(isJson ? { content: { 'application/json': {} } } : { schema: propertySchema as OpenAPIV3.SchemaObject }),
+        ..._.pick(encoding, ['style', 'explode', 'allowReserved']),
+      };
+    });
+  }
+
+  /**
+   * Whether a parameter is an object serialized with style form and explode true, i.e. ?role=admin&name=Alex
+   *
+   * @param {ParameterObject} parameter
+   * @returns {boolean}
+   */
+  private static isExplodedFormObject(parameter: ParameterObject): boolean {
+    const style = parameter.style || 'form';
+    const explode = parameter.explode ?? style === 'form';
+    return (
+      !parameter.content &&
+      style === 'form' &&
+      explode &&
+      this.getSerializedType(parameter.schema as SchemaObject | undefined) === 'object'
+    );
+  }
+
+  /**
+   * Folds flat name[key]=value query keys into a nested object under name
+   *
+   * Query strings parsed with qs are already nested, this handles queries passed as flat objects
+   *
+   * @param {object} query
+   * @param {string} name
+   */
+  private static foldDeepObject(query: { [key: string]: any }, name: string): void {
+    const prefix = `${name}[`;
+    for (const key of Object.keys(query)) {
+      if (key.startsWith(prefix)) {
+        const path = key
+          .slice(name.length)
+          .split(/\]\[|\[|\]/)
+          .filter(Boolean);
+        query[name] = _.isPlainObject(query[name]) ? query[name] : {};
+        _.set(query[name], path, query[key]);
+        delete query[key];
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Base class for errors thrown while handling requests, with the HTTP status code they map to
+ *
+ * Messages are prefixed with the status code and handler name, i.e. 404-notFound: no route matches request
+ *
+ * @export
+ * @class HttpError
+ */
+export class HttpError extends Error {
+  public statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Thrown when no route matches the request
+ *
+ * @export
+ * @class NotFoundError
+ */
+export class NotFoundError extends HttpError {
+  constructor(message = 'no route matches request') {
+    super(404, `404-notFound: ${message}`);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Thrown when the path of the request matches a route, but the method doesn't
+ *
+ * @export
+ * @class MethodNotAllowedError
+ */
+export class MethodNotAllowedError extends HttpError {
+  constructor(message = 'this method is not registered for the route') {
+    super(405, `405-methodNotAllowed: ${message}`);
+    this.name = 'MethodNotAllowedError';
+  }
+}
+
+/**
+ * Thrown when no handler is registered for the matched operation
+ *
+ * @export
+ * @class NotImplementedError
+ */
+export class NotImplementedError extends HttpError {
+  public operationId: string;
+
+  constructor(operationId: string) {
+    super(501, `501-notImplemented: ${operationId} no handler registered`);
+    this.name = 'NotImplementedError';
+    this.operationId = operationId;
+  }
+}
+
+/**
+ * Thrown when a request body exceeds the body limit of an adapter
+ *
+ * @export
+ * @class PayloadTooLargeError
+ */
+export class PayloadTooLargeError extends HttpError {
+  constructor(limit: number) {
+    super(413, `413-payloadTooLarge: request body exceeds the limit of ${limit} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
@@ -5,3 +5,11 @@ export default OpenAPIBackend;
 export * from './backend';
 export * from './router';
 export * from './validation';
+export * from './definition';
+export * from './errors';
+export * from './problem';
+export * from './adapters/common';
+export * from './adapters/fetch';
+export * from './adapters/node';
+export * from './adapters/express';
+export * from './adapters/lambda';
@@ -0,0 +1,183 @@
+import { OpenAPIBackend } from './backend';
+import { OpenAPIV3_1 } from 'openapi-types';
+import { problemResponse, toProblemErrors, PROBLEM_JSON } from './problem';
+
+const definition: OpenAPIV3_1.Document = {
+  openapi: '3.1.0',
+  info: {
+    title: 'api',
+    version: '1.0.0',
+  },
+  paths: {
+    '/pets': {
+      get: {
+        operationId: 'getPets',
+        parameters: [
+          { name: 'limit', in: 'query', schema: { type: 'integer' } },
+          { name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string' } },
+        ],
+        responses: { 200: { description: 'ok' } },
+      },
+      post: {
+        operationId: 'createPet',
+        security: [{ apiKey: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+                required: ['name'],
+              },
+            },
+          },
+        },
+        responses: { 201: { description: 'created' } },
+      },
+    },
+    '/pets/{id}': {
+      get: {
+        operationId: 'getPetById',
+        responses: { 200: { description: 'ok' } },
+      },
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+    },
+  },
+};
+
+describe('problem details', () => {
+  describe('.problemResponse', () => {
+    test('builds an application/problem+json response', () => {
+      expect(problemResponse(404, { detail: 'not here', instance: '/pets/1' })).toEqual({
+        statusCode: 404,
+        headers: { 'content-type': PROBLEM_JSON },
+        body: { type: 'about:blank', title: 'Not Found', status: 404, detail: 'not here', instance: '/pets/1' },
+      });
+    });
+  });
+
+  describe('.toProblemErrors', () => {
+    test('maps instancePaths to locations and pointers', () => {
+      const errors = toProblemErrors([
+        { keyword: 'type', instancePath: '/query/limit', schemaPath: '', params: {}, message: 'must be integer' },
+        { keyword: 'type', instancePath: '/requestBody/tags/0', schemaPath: '', params: {}, message: 'must be string' },
+        {
+          keyword: 'required',
+          instancePath: '/header',
+          schemaPath: '',
+          params: { missingProperty: 'x-request-id' },
+          message: "must have required property 'x-request-id'",
+        },
+        {
+          keyword: 'additionalProperties',
+          instancePath: '/query',
+          schemaPath: '',
+          params: { additionalProperty: 'a/b' },
+          message: 'must NOT have additional properties',
+        },
+        { keyword: 'parse', instancePath: '', schemaPath: '#/requestBody', params: [], message: 'Unexpected token' },
+      ]);
+      expect(errors).toEqual([
+        { in: 'query', pointer: '#/limit', detail: "query parameter 'limit' must be integer" },
+        { in: 'body', pointer: '#/tags/0', detail: 'request body property /tags/0 must be string' },
+        { in: 'header', pointer: '#/x-request-id', detail: "header parameter 'x-request-id' is required" },
+        { in: 'query', pointer: '#/a~1b', detail: "query parameter 'a/b' is not allowed" },
+        { in: 'body', pointer: '#', detail: 'Unexpected token' },
+      ]);
+    });
+  });
+
+  describe('problemDetails option', () => {
+    const api = new OpenAPIBackend({
+      definition,
+      problemDetails: true,
+      handlers: { getPets: () => ({ statusCode: 200 }) },
+    });
+
+    beforeAll(async () => {
+      api.registerSecurityHandler('apiKey', (c) => c.request.headers['x-api-key'] === 'secret');
+      await api.init();
+    });
+
+    test('responds 400 with validation errors', async () => {
+      const res = await api.handleRequest({
+        method: 'post',
+        path: '/pets',
+        headers: { 'content-type': 'application/json', 'x-api-key': 'secret' },
+        body: { name: 'Garfield', tags: [1] },
+      });
+      expect(res).toEqual({
+        statusCode: 400,
+        headers: { 'content-type': PROBLEM_JSON },
+        body: {
+          type: 'about:blank',
+          title: 'Bad Request',
+          status: 400,
+          detail: 'The request failed validation',
+          errors: [{ in: 'body', pointer: '#/tags/0', detail: 'request body property /tags/0 must be string' }],
+        },
+      });
+    });
+
+    test('responds 400 with parameter errors', async () => {
+      const res = await api.handleRequest({
+        method: 'get',
+        path: '/pets',
+        query: 'limit=abc',
+        headers: { 'x-request-id': '1' },
+      });
+      expect(res.body.errors).toEqual([
+        { in: 'query', pointer: '#/limit', detail: "query parameter 'limit' must be integer" },
+      ]);
+
+      const missingHeader = await api.handleRequest({ method: 'get', path: '/pets', headers: {} });
+      expect(missingHeader.body.errors).toEqual([
+        { in: 'header', pointer: '#/x-request-id', detail: "header parameter 'x-request-id' is required" },
+      ]);
+    });
+
+    test('responds 401 when unauthorized', async () => {
+      const res = await api.handleRequest({ method: 'post', path: '/pets', headers: {} });
+      expect(res).toMatchObject({ statusCode: 401, body: { title: 'Unauthorized', status: 401 } });
+    });
+
+    test('responds 404 for unknown routes', async () => {
+      const res = await api.handleRequest({ method: 'get', path: '/owners', headers: {} });
+      expect(res).toMatchObject({
+        statusCode: 404,
+        headers: { 'content-type': PROBLEM_JSON },
+        body: { title: 'Not Found', status: 404, detail: 'No route matches GET /owners' },
+      });
+    });
+
+    test('responds 405 for unknown methods', async () => {
+      const res = await api.handleRequest({ method: 'delete', path: '/pets', headers: {} });
+      expect(res).toMatchObject({ statusCode: 405, body: { detail: 'DELETE is not allowed for /pets' } });
+    });
+
+    test('responds 501 for operations without handlers', async () => {
+      const res = await api.handleRequest({ method: 'get', path: '/pets/1', headers: {} });
+      expect(res).toMatchObject({
+        statusCode: 501,
+        body: { detail: 'No handler is registered for operation getPetById' },
+      });
+    });
+
+    test('lets registered handlers override the defaults', async () => {
+      const custom = new OpenAPIBackend({ definition, problemDetails: true, handlers: { notFound: () => 'custom' } });
+      await custom.init();
+      expect(await custom.handleRequest({ method: 'get', path: '/owners', headers: {} })).toBe('custom');
+      expect(custom.handlers['methodNotAllowed']).toBeDefined();
+    });
+
+    test('does not register the default handlers by default', () => {
+      expect(new OpenAPIBackend({ definition }).handlers).toEqual({});
+    });
+  });
+});
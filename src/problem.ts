@@ -0,0 +1,108 @@
+// library code, any is fine
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import type { ErrorObject } from 'ajv';
+import type { Context, Handler, HandlerMap, OperationResponse } from './backend';
+import { OpenAPIValidator, FormattedValidationError } from './validation';
+
+export const PROBLEM_JSON = 'application/problem+json';
+
+/**
+ * RFC 9457 problem details document
+ *
+ * @export
+ * @interface ProblemDetails
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: any;
+}
+
+/**
+ * A validation error in the errors[] extension of a problem details document
+ *
+ * @export
+ * @interface ProblemError
+ */
+export interface ProblemError {
+  in: FormattedValidationError['in'];
+  pointer: string;
+  detail: string;
+}
+
+const titles: { [status: number]: string } = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  501: 'Not Implemented',
+};
+
+/**
+ * Builds an application/problem+json OperationResponse
+ *
+ * The type defaults to about:blank, with the title of the HTTP status code
+ *
+ * @export
+ * @param {number} status - HTTP status code
+ * @param {Partial<ProblemDetails>} [problem] - detail, instance or extension members
+ * @returns {OperationResponse<ProblemDetails>}
+ */
+export function problemResponse(
+  status: number,
+  problem: Partial<ProblemDetails> = {},
+): OperationResponse<ProblemDetails> {
+  return {
+    statusCode: status,
+    headers: { 'content-type': PROBLEM_JSON },
+    body: { type: 'about:blank', title: titles[status] || 'Error', status, ...problem },
+  };
+}
+
+/**
+ * Maps Ajv request validation errors to problem details errors[] entries, see OpenAPIValidator.formatErrors
+ *
+ * The pointer is a JSON pointer to the invalid value within its location, i.e. /query/limit becomes
+ * { in: 'query', pointer: '#/limit' }
+ *
+ * @export
+ * @param {ErrorObject[]} errors
+ * @returns {ProblemError[]}
+ */
+export function toProblemErrors(errors: ErrorObject[]): ProblemError[] {
+  return OpenAPIValidator.formatErrors(errors).map((error) => ({
+    in: error.in,
+    pointer: `#${error.pointer}`,
+    detail: error.message,
+  }));
+}
+
+/**
+ * Default handlers responding with RFC 9457 problem details, enabled with the problemDetails option
+ *
+ * @export
+ */
+export const problemHandlers: HandlerMap & {
+  validationFail: Handler;
+  notFound: Handler;
+  methodNotAllowed: Handler;
+  notImplemented: Handler;
+  unauthorizedHandler: Handler;
+} = {
+  validationFail: (c: Context) =>
+    problemResponse(400, {
+      detail: 'The request failed validation',
+      errors: toProblemErrors(c.validation.errors),
+    }),
+  notFound: (c: Context) =>
+    problemResponse(404, { detail: `No route matches ${c.request.method.toUpperCase()} ${c.request.path}` }),
+  methodNotAllowed: (c: Context) =>
+    problemResponse(405, { detail: `${c.request.method.toUpperCase()} is not allowed for ${c.request.path}` }),
+  notImplemented: (c: Context) =>
+    problemResponse(501, { detail: `No handler is registered for operation ${c.operation.operationId}` }),
+  unauthorizedHandler: () => problemResponse(401, { detail: 'The request is not authorized' }),
+};
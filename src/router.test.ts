@@ -2,6 +2,7 @@
 
 import { OpenAPIRouter, Operation } from './router';
 import { OpenAPIBackend, Context } from './backend';
+import { MethodNotAllowedError, NotFoundError } from './errors';
 import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
 
 const headers = { accept: 'application/json' };
@@ -168,6 +169,39 @@ describe('OpenAPIRouter', () => {
       expect(parsedRequest.params).toEqual({ id: '123' });
     });
 
+    const getPetById = api.getOperation('getPetById')!;
+
+    test('parses path parameters with style=matrix, explode=true', () => {
+      const request = { path: '/pets/;id=1;id=2', method: 'get', headers };
+      const operation: typeof getPetById = {
+        ...getPetById,
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            style: 'matrix',
+            explode: true,
+            schema: { type: 'array', items: {} },
+          },
+        ],
+      };
+
+      const parsedRequest = api.parseRequest(request, operation);
+      expect(parsedRequest.params).toEqual({ id: ['1', '2'] });
+    });
+
+    test('parses path parameters with style=simple, explode=true object', () => {
+      const request = { path: '/pets/role=admin,name=Alex%20Smith', method: 'get', headers };
+      const operation: typeof getPetById = {
+        ...getPetById,
+        parameters: [{ name: 'id', in: 'path', required: true, explode: true, schema: { type: 'object' } }],
+      };
+
+      const parsedRequest = api.parseRequest(request, operation);
+      expect(parsedRequest.params).toEqual({ id: { role: 'admin', name: 'Alex Smith' } });
+    });
+
     test('parses query string from path prop', () => {
       const request = { path: '/pets?limit=10', method: 'get', headers };
 
@@ -337,6 +371,97 @@ describe('OpenAPIRouter', () => {
       expect(parsedRequest.query).toEqual({ limit: ['10', '20'] });
     });
 
+    test('parses query string objects when style=deepObject', () => {
+      const request = { path: '/pets?owner[name]=Alex&owner[age]=40', method: 'get', headers };
+      const operation: typeof getPetById = {
+        ...getPetById,
+        parameters: [{ name: 'owner', in: 'query', style: 'deepObject', explode: true, schema: { type: 'object' } }],
+      };
+
+      const parsedRequest = api.parseRequest(request, operation);
+      expect(parsedRequest.query).toEqual({ owner: { name: 'Alex', age: '40' } });
+    });
+
+    test('parses query string objects when style=form, explode=true', () => {
+      const request = { path: '/pets?name=Alex&age=40&limit=10', method: 'get', headers };
+      const operation: typeof getPetById = {
+        ...getPetById,
+        parameters: [
+          {
+            name: 'owner',
+            in: 'query',
+            schema: { type: 'object', properties: { name: { type: 'string' }, age: { type: 'integer' } } },
+          },
+          queryLimit,
+        ],
+      };
+
+      const parsedRequest = api.parseRequest(request, operation);
+      expect(parsedRequest.query).toEqual({ owner: { name: 'Alex', age: '40' }, limit: '10' });
+    });
+
+    test('parses header arrays and objects when style=simple', () => {
+      const request = {
+        path: '/pets/1',
+        method: 'get',
+        headers: { ...headers, 'X-Ids': '1,2,3', 'X-Meta': 'role=admin,name=Alex' },
+      };
+      const operation: typeof getPetById = {
+        ...getPetById,
+        parameters: [
+          { name: 'X-Ids', in: 'header', schema: { type: 'array', items: { type: 'integer' } } },
+          {
+            name: 'X-Meta',
+            in: 'header',
+            explode: true,
+            schema: { type: 'object', properties: { role: { type: 'string' }, name: { type: 'string' } } },
+          },
+        ],
+      };
+
+      const parsedRequest = api.parseRequest(request, operation);
+      expect(parsedRequest.headers['x-ids']).toEqual(['1', '2', '3']);
+      expect(parsedRequest.headers['x-meta']).toEqual({ role: 'admin', name: 'Alex' });
+    });
+
+    test('parses cookie arrays and objects when style=form', () => {
+      const request = {
+        path: '/pets/1',
+        method: 'get',
+        headers: { ...headers, cookie: 'id=1; id=2; role=admin; name=Alex' },
+      };
+      const operation: typeof getPetById = {
+        ...getPetById,
+        parameters: [
+          { name: 'id', in: 'cookie', schema: { type: 'array', items: { type: 'integer' } } },
+          {
+            name: 'owner',
+            in: 'cookie',
+            schema: { type: 'object', properties: { role: { type: 'string' }, name: { type: 'string' } } },
+          },
+        ],
+      };
+
+      const parsedRequest = api.parseRequest(request, operation);
+      expect(parsedRequest.cookies).toEqual({ id: ['1', '2'], owner: { role: 'admin', name: 'Alex' } });
+    });
+
+    test('uses already-parsed cookies', () => {
+      const request = {
+        path: '/pets/1',
+        method: 'get',
+        headers: { ...headers, cookie: 'id=1' },
+        cookies: { id: [1, 2] },
+      };
+      const operation: typeof getPetById = {
+        ...getPetById,
+        parameters: [{ name: 'id', in: 'cookie', schema: { type: 'array', items: { type: 'integer' } } }],
+      };
+
+      const parsedRequest = api.parseRequest(request, operation);
+      expect(parsedRequest.cookies).toEqual({ id: [1, 2] });
+    });
+
     test('parses already-coerced array query param with multiple string elements', () => {
       const request = { path: '/pets', query: { keywords: ['hello', 'world'] }, method: 'get', headers };
       const operation = api.getOperation('createPet')!;
@@ -370,6 +495,43 @@ describe('OpenAPIRouter', () => {
     });
   });
 
+  describe('.getOperations', () => {
+    const api = new OpenAPIRouter({ definition });
+
+    test('returns the same operation objects on every call', async () => {
+      const operations = api.getOperations();
+      expect(api.getOperations()).toBe(operations);
+      expect(api.getOperation('getPets')).toBe(operations.find(({ operationId }) => operationId === 'getPets'));
+      expect(api.matchOperation({ path: '/pets', method: 'get', headers })).toBe(api.getOperation('getPets'));
+    });
+
+    test('returns a frozen array', async () => {
+      expect(Object.isFrozen(api.getOperations())).toBe(true);
+    });
+
+    test('invalidates the index when definition is replaced', async () => {
+      const router = new OpenAPIRouter({ definition });
+      const operations = router.getOperations();
+      router.definition = { ...definition };
+      expect(router.getOperations()).not.toBe(operations);
+      expect(router.getOperation('getPets')).not.toBe(operations.find(({ operationId }) => operationId === 'getPets'));
+    });
+  });
+
+  describe('.getOperationByPath', () => {
+    const api = new OpenAPIRouter({ definition });
+
+    test('gets operation by method and path template', async () => {
+      expect(api.getOperationByPath('get', '/pets/{id}')?.operationId).toEqual('getPetById');
+      expect(api.getOperationByPath('DELETE', '/pets/{id}')?.operationId).toEqual('deletePetById');
+    });
+
+    test('returns undefined for unknown operations', async () => {
+      expect(api.getOperationByPath('post', '/pets/{id}')).toBe(undefined);
+      expect(api.getOperationByPath('get', '/pets/1')).toBe(undefined);
+    });
+  });
+
   describe('.matchOperation', () => {
     const api = new OpenAPIRouter({ definition });
 
@@ -434,6 +596,84 @@ describe('OpenAPIRouter', () => {
     });
   });
 
+  describe('.matchOperation with templated path segments', () => {
+    const api = new OpenAPIRouter({
+      definition: {
+        ...definition,
+        paths: {
+          '/files/{name}.json': {
+            get: {
+              operationId: 'getJsonFile',
+              responses,
+            },
+          },
+          '/files/{name}': {
+            get: {
+              operationId: 'getFile',
+              responses,
+            },
+            delete: {
+              operationId: 'deleteFile',
+              responses,
+            },
+          },
+          '/files/{name}.{ext}': {
+            delete: {
+              operationId: 'deleteFileWithExt',
+              responses,
+            },
+          },
+        },
+      },
+    });
+
+    test('matches GET /files/{name}.json before less specific templates', async () => {
+      const { operationId } = api.matchOperation({ path: '/files/data.json', method: 'get', headers }) as Operation;
+      expect(operationId).toEqual('getJsonFile');
+    });
+
+    test('matches GET /files/{name}', async () => {
+      const { operationId } = api.matchOperation({ path: '/files/data', method: 'get', headers }) as Operation;
+      expect(operationId).toEqual('getFile');
+    });
+
+    test('treats template literals as literal characters', async () => {
+      const { operationId } = api.matchOperation({ path: '/files/dataxjson', method: 'get', headers }) as Operation;
+      expect(operationId).toEqual('getFile');
+    });
+
+    test('falls back to a less specific path for an unmatched method', async () => {
+      const { operationId } = api.matchOperation({ path: '/files/data.json', method: 'delete', headers }) as Operation;
+      expect(operationId).toEqual('deleteFileWithExt');
+    });
+
+    test('does not match empty path segments', async () => {
+      const operation = api.matchOperation({ path: '/files//data', method: 'get', headers });
+      expect(operation).toBe(undefined);
+    });
+  });
+
+  describe('.matchOperation after replacing definition', () => {
+    const api = new OpenAPIRouter({ definition });
+
+    test('rebuilds the routing index', async () => {
+      api.definition = {
+        ...definition,
+        paths: {
+          '/humans/{id}': {
+            get: {
+              operationId: 'getHumanById',
+              responses,
+            },
+          },
+        },
+      };
+      const { operationId } = api.matchOperation({ path: '/humans/1', method: 'get', headers }) as Operation;
+      expect(operationId).toEqual('getHumanById');
+      expect(api.matchOperation({ path: '/pets/1', method: 'get', headers })).toBe(undefined);
+    });
+  });
+
   describe('.matchOperation with ignoreTrailingSlashes=false', () => {
     const api = new OpenAPIRouter({ definition, ignoreTrailingSlashes: false });
 
@@ -472,6 +712,196 @@ describe('OpenAPIRouter', () => {
     });
   });
 
+  describe('.matchOperation with useServers', () => {
+    const api = new OpenAPIRouter({
+      definition: {
+        ...definition,
+        servers: [
+          { url: 'https://api.example.com/v1' },
+          {
+            url: '/{tenant}/api',
+            variables: {
+              tenant: { default: 'acme', enum: ['acme', 'globex'] },
+            },
+          },
+        ],
+        paths: {
+          ...definition.paths,
+          '/status': {
+            servers: [{ url: '/internal' }],
+            get: {
+              operationId: 'getStatus',
+              responses,
+            },
+          },
+          '/health': {
+            get: {
+              operationId: 'getHealth',
+              servers: [{ url: '/' }],
+              responses,
+            },
+          },
+        },
+      },
+      useServers: true,
+    });
+
+    test('matches GET /v1/pets relative to server url path', async () => {
+      const { operationId } = api.matchOperation({ path: '/v1/pets', method: 'get', headers }) as Operation;
+      expect(operationId).toEqual('getPets');
+    });
+
+    test('matches GET /acme/api/pets/1 with server variable', async () => {
+      const { operationId } = api.matchOperation({ path: '/acme/api/pets/1', method: 'get', headers }) as Operation;
+      expect(operationId).toEqual('getPetById');
+    });
+
+    test('does not match server variable values outside enum', async () => {
+      const operation = api.matchOperation({ path: '/initech/api/pets', method: 'get', headers });
+      expect(operation).toBe(undefined);
+    });
+
+    test('does not match GET /pets without server base path', async () => {
+      const operation = api.matchOperation({ path: '/pets', method: 'get', headers });
+      expect(operation).toBe(undefined);
+    });
+
+    test('matches path-level servers override', async () => {
+      const { operationId } = api.matchOperation({ path: '/internal/status', method: 'get', headers }) as Operation;
+      expect(operationId).toEqual('getStatus');
+      expect(api.matchOperation({ path: '/v1/status', method: 'get', headers })).toBe(undefined);
+    });
+
+    test('matches operation-level servers override', async () => {
+      const { operationId } = api.matchOperation({ path: '/health', method: 'get', headers }) as Operation;
+      expect(operationId).toEqual('getHealth');
+      expect(api.matchOperation({ path: '/v1/health', method: 'get', headers })).toBe(undefined);
+    });
+
+    test('throws a 405 for DELETE /v1/pets in strict mode', async () => {
+      const call = () => api.matchOperation({ path: '/v1/pets', method: 'delete', headers }, true);
+      expect(call).toThrowError('405-methodNotAllowed: this method is not registered for the route');
+    });
+
+    test('parses matched server and variables', async () => {
+      const request = { path: '/globex/api/pets/1', method: 'get', headers };
+      const parsedRequest = api.parseRequest(request, api.matchOperation(request));
+      expect(parsedRequest.params).toEqual({ id: '1' });
+      expect(parsedRequest.server).toEqual({
+        url: '/{tenant}/api',
+        basePath: '/globex/api',
+        variables: { tenant: 'globex' },
+      });
+    });
+
+    test('parses matched server with absolute url', async () => {
+      const request = { path: '/v1/pets/1', method: 'get', headers };
+      const parsedRequest = api.parseRequest(request, api.matchOperation(request));
+      expect(parsedRequest.params).toEqual({ id: '1' });
+      expect(parsedRequest.server).toEqual({ url: 'https://api.example.com/v1', basePath: '/v1', variables: {} });
+    });
+  });
+
+  describe('.matchOperation with matchHost', () => {
+    const api = new OpenAPIRouter({
+      definition: {
+        ...definition,
+        servers: [
+          { url: 'https://api.example.com/v1' },
+          {
+            url: '{scheme}://{region}.example.com/v1',
+            variables: {
+              scheme: { default: 'https', enum: ['https'] },
+              region: { default: 'eu', enum: ['eu', 'us'] },
+            },
+          },
+          { url: 'http://localhost:9000' },
+        ],
+        paths: {
+          ...definition.paths,
+          '/admin': {
+            servers: [{ url: 'https://admin.example.com/v1' }],
+            get: {
+              operationId: 'getAdmin',
+              responses,
+            },
+          },
+        },
+      },
+      matchHost: true,
+    });
+
+    test('matches GET /v1/pets with Host header', async () => {
+      const request = { path: '/v1/pets', method: 'get', headers: { Host: 'api.example.com' } };
+      const { operationId } = api.matchOperation(request) as Operation;
+      expect(operationId).toEqual('getPets');
+    });
+
+    test('matches Host header with any port when server url has no port', async () => {
+      const request = { path: '/v1/pets', method: 'get', headers: { host: 'api.example.com:443' } };
+      const { operationId } = api.matchOperation(request) as Operation;
+      expect(operationId).toEqual('getPets');
+    });
+
+    test('matches Host header with explicit port', async () => {
+      const request = { path: '/pets', method: 'get', headers: { host: 'localhost:9000' } };
+      const { operationId } = api.matchOperation(request) as Operation;
+      expect(operationId).toEqual('getPets');
+      expect(api.matchOperation({ ...request, headers: { host: 'localhost:8080' } })).toBe(undefined);
+    });
+
+    test('matches X-Forwarded-Host over Host header', async () => {
+      const request = {
+        path: '/v1/pets',
+        method: 'get',
+        headers: { host: 'internal.local', 'x-forwarded-host': 'api.example.com, proxy.local' },
+      };
+      const { operationId } = api.matchOperation(request) as Operation;
+      expect(operationId).toEqual('getPets');
+    });
+
+    test('does not match unknown hosts', async () => {
+      const request = { path: '/v1/pets', method: 'get', headers: { host: 'evil.example.org' } };
+      expect(api.matchOperation(request)).toBe(undefined);
+      expect(() => api.matchOperation(request, true)).toThrowError('404-notFound: no route matches request');
+    });
+
+    test('does not match absolute server urls without a Host header', async () => {
+      const request = { path: '/v1/pets', method: 'get', headers };
+      expect(api.matchOperation(request)).toBe(undefined);
+    });
+
+    test('does not match X-Forwarded-Proto with a different scheme', async () => {
+      const request = {
+        path: '/v1/pets',
+        method: 'get',
+        headers: { host: 'api.example.com', 'x-forwarded-proto': 'http' },
+      };
+      expect(api.matchOperation(request)).toBe(undefined);
+    });
+
+    test('routes operations to the host they are served from', async () => {
+      const admin = { path: '/v1/admin', method: 'get', headers: { host: 'admin.example.com' } };
+      expect(api.matchOperation(admin)?.operationId).toEqual('getAdmin');
+      expect(api.matchOperation({ ...admin, headers: { host: 'api.example.com' } })).toBe(undefined);
+    });
+
+    test('parses host server variables', async () => {
+      const request = {
+        path: '/v1/pets/1',
+        method: 'get',
+        headers: { host: 'us.example.com', 'x-forwarded-proto': 'https' },
+      };
+      const parsedRequest = api.parseRequest(request, api.matchOperation(request));
+      expect(parsedRequest.params).toEqual({ id: '1' });
+      expect(parsedRequest.server).toEqual({
+        url: '{scheme}://{region}.example.com/v1',
+        basePath: '/v1',
+        variables: { scheme: 'https', region: 'us' },
+      });
+    });
+  });
+
   describe('.matchOperation with strict mode', () => {
     const api = new OpenAPIRouter({ definition });
 
@@ -488,11 +918,13 @@ describe('OpenAPIRouter', () => {
     test('throws a 404 for GET /humans', async () => {
       const call = () => api.matchOperation({ path: '/humans', method: 'get', headers }, true);
       expect(call).toThrowError('404-notFound: no route matches request');
+      expect(call).toThrowError(NotFoundError);
     });
 
     test('throws a 405 for DELETE /pets', async () => {
       const call = () => api.matchOperation({ path: '/pets', method: 'delete', headers }, true);
       expect(call).toThrowError('405-methodNotAllowed: this method is not registered for the route');
+      expect(call).toThrowError(MethodNotAllowedError);
     });
   });
 });
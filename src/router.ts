@@ -1,10 +1,11 @@
 import * as _ from 'lodash';
 import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
-import bath from 'bath-es5';
 import * as cookie from 'cookie';
 import { parse as parseQuery } from 'qs';
-import { Parameters } from 'bath-es5/_/types';
 import { PickVersionElement } from './backend';
+import OpenAPIDeserializer from './deserialize';
+import OpenAPIUtils from './utils';
+import { MethodNotAllowedError, NotFoundError } from './errors';
 
 // alias Document to OpenAPIV3_1.Document
 type Document = OpenAPIV3_1.Document | OpenAPIV3.Document;
@@ -50,6 +51,9 @@ export interface Request {
   params?: {
     [key: string]: string;
   };
+  cookies?: {
+    [key: string]: UnknownParams;
+  };
 }
 
 export interface ParsedRequest<
@@ -67,6 +71,141 @@ export interface ParsedRequest<
   headers: Headers;
   cookies: Cookies;
   body?: AnyRequestBody;
+  server?: ServerMatch;
+}
+
+/**
+ * Server matched for a request, with the resolved values of its server variables
+ *
+ * @export
+ * @interface ServerMatch
+ */
+export interface ServerMatch {
+  url: string;
+  basePath: string;
+  variables: {
+    [variable: string]: string;
+  };
+}
+
+/**
+ * A single path in the routing trie, holding its operations keyed by http method
+ *
+ * @interface PathRoute
+ */
+interface PathRoute<D extends Document = Document> {
+  path: string;
+  specificity: number;
+  order: number;
+  operations: Map<string, Operation<D>>;
+}
+
+/**
+ * A node in the routing trie. Each level of the trie represents a single path segment
+ *
+ * @interface RouteNode
+ */
+interface RouteNode<D extends Document = Document> {
+  static: Map<string, RouteNode<D>>;
+  dynamic: { template: string; pattern: RegExp; node: RouteNode<D> }[];
+  route?: PathRoute<D>;
+}
+
+/**
+ * Routing trie with its paths indexed by path template
+ *
+ * @interface RouteTable
+ */
+interface RouteTable<D extends Document = Document> {
+  root: RouteNode<D>;
+  routesByPath: Map<string, PathRoute<D>>;
+}
+
+/**
+ * Regex pattern compiled from a part of a server url template, capturing server variables
+ *
+ * @interface ServerUrlPattern
+ */
+interface ServerUrlPattern {
+  pattern: RegExp;
+  variableNames: string[];
+}
+
+/**
+ * Routing trie for the operations served by a single server url
+ *
+ * @interface ServerRoute
+ */
+interface ServerRoute<D extends Document = Document> extends RouteTable<D> {
+  key: string;
+  url: string;
+  specificity: number;
+  path: ServerUrlPattern;
+  host?: ServerUrlPattern;
+  scheme?: ServerUrlPattern;
+  defaults: { [variable: string]: string };
+}
+
+/**
+ * Converts a server url template to regex source i.e. /{tenant}/api becomes /([^/]+)/api
+ *
+ * Variables with an enum only match the listed values, others match valuePattern
+ *
+ * @param {string} template
+ * @param {object} variables - server variables from the server object
+ * @param {string} valuePattern - regex source to match variables without an enum
+ * @returns {{ source: string; variableNames: string[] }}
+ */
+function compileServerUrlTemplate(
+  template: string,
+  variables: { [variable: string]: OpenAPIV3.ServerVariableObject },
+  valuePattern: string,
+): { source: string; variableNames: string[] } {
+  const variableNames: string[] = [];
+  const source = template
+    .split(/\{(.*?)\}/)
+    .map((part, i) => {
+      if (i % 2 === 0) {
+        return _.escapeRegExp(part);
+      }
+      variableNames.push(part);
+      const values = variables[part]?.enum;
+      return values?.length ? `(${values.map((value) => _.escapeRegExp(`${value}`)).join('|')})` : `(${valuePattern})`;
+    })
+    .join('');
+  return { source, variableNames };
+}
+
+/**
+ * Matches a value against a server url pattern, and assigns captured server variables
+ *
+ * @param {ServerUrlPattern} urlPattern
+ * @param {string} value
+ * @param {object} variables - server variables to assign captured values to
+ * @returns {RegExpExecArray | null}
+ */
+function execServerUrlPattern(
+  urlPattern: ServerUrlPattern,
+  value: string,
+  variables: { [variable: string]: string },
+): RegExpExecArray | null {
+  const match = urlPattern.pattern.exec(value);
+  if (match) {
+    urlPattern.variableNames.forEach((name, i) => (variables[name] = match[i + 1]));
+  }
+  return match;
+}
+
+/**
+ * Precompiled operation and routing index built from the definition
+ *
+ * @interface OperationIndex
+ */
+interface OperationIndex<D extends Document = Document> {
+  operations: Operation<D>[];
+  operationsById: Map<string, Operation<D>>;
+  routes: RouteTable<D>;
+  servers: ServerRoute<D>[];
 }
 
 /**
@@ -76,10 +215,13 @@ export interface ParsedRequest<
  * @class OpenAPIRouter
  */
 export class OpenAPIRouter<D extends Document = Document> {
-  public definition: D;
   public apiRoot: string;
 
   private ignoreTrailingSlashes: boolean;
+  private useServers: boolean;
+  private matchHost: boolean;
+  private currentDefinition: D;
+  private operationIndex: OperationIndex<D>;
 
   /**
    * Creates an instance of OpenAPIRouter
@@ -87,12 +229,43 @@ export class OpenAPIRouter<D extends Document = Document> {
    * @param opts - constructor options
    * @param {D} opts.definition - the OpenAPI definition, file path or Document object
    * @param {string} opts.apiRoot - the root URI of the api. all paths are matched relative to apiRoot
+   * @param {boolean} opts.ignoreTrailingSlashes - whether to ignore trailing slashes when routing (default: true)
+   * @param {boolean} opts.useServers - whether to match paths relative to the servers[] urls in the definition (default: false)
+   * @param {boolean} opts.matchHost - whether to also match the request host and scheme against absolute server urls. Implies useServers (default: false)
    * @memberof OpenAPIRouter
    */
-  constructor(opts: { definition: D; apiRoot?: string; ignoreTrailingSlashes?: boolean }) {
+  constructor(opts: {
+    definition: D;
+    apiRoot?: string;
+    ignoreTrailingSlashes?: boolean;
+    useServers?: boolean;
+    matchHost?: boolean;
+  }) {
     this.definition = opts.definition;
     this.apiRoot = opts.apiRoot || '/';
     this.ignoreTrailingSlashes = opts.ignoreTrailingSlashes ?? true;
+    this.matchHost = opts.matchHost ?? false;
+    this.useServers = (opts.useServers ?? false) || this.matchHost;
+  }
+
+  /**
+   * The OpenAPI definition used for routing
+   *
+   * @type {D}
+   * @memberof OpenAPIRouter
+   */
+  public get definition(): D {
+    return this.currentDefinition;
+  }
+
+  /**
+   * Replaces the OpenAPI definition and rebuilds the operation index
+   *
+   * @memberof OpenAPIRouter
+   */
+  public set definition(definition: D) {
+    this.currentDefinition = definition;
+    this.operationIndex = this.buildOperationIndex();
   }
 
   /**
@@ -112,7 +285,7 @@ export class OpenAPIRouter<D extends Document = Document> {
     // if request doesn't match apiRoot, throw 404
     if (!req.path.startsWith(this.apiRoot)) {
       if (strict) {
-        throw Error('404-notFound: no route matches request');
+        throw new NotFoundError();
       } else {
         return undefined;
       }
@@ -121,57 +294,386 @@ export class OpenAPIRouter<D extends Document = Document> {
     // get relative path
     const normalizedPath = this.normalizePath(req.path);
 
-    // get all operations matching exact path
-    const exactPathMatches = this.getOperations().filter(({ path }) => path === normalizedPath);
-
-    // check if there's one with correct method and return if found
-    const exactMatch = exactPathMatches.find(({ method }) => method === req.method);
-    if (exactMatch) {
-      return exactMatch;
+    // match the path against each routing table, most specific server first
+    let pathMatched = false;
+    for (const { table, path } of this.getRouteTables(req, normalizedPath)) {
+      const match = this.matchRoute(table, path, req.method);
+      if (match.operation) {
+        return match.operation;
+      }
+      pathMatched = pathMatched || match.pathMatched;
     }
 
-    // check with path templates
-    const templatePathMatches = this.getOperations().filter(({ path }) => {
-      // convert openapi path template to a regex pattern i.e. /{id}/ becomes /[^/]+/
-      const pathPattern = `^${path.replace(/\{.*?\}/g, '[^/]+')}$`;
-      return Boolean(normalizedPath.match(new RegExp(pathPattern, 'g')));
-    });
-
     // if no operations match the path, throw 404
-    if (!templatePathMatches.length) {
+    if (!pathMatched) {
       if (strict) {
-        throw Error('404-notFound: no route matches request');
+        throw new NotFoundError();
       } else {
         return undefined;
       }
     }
 
-    // find matching operation
-    const match = _.chain(templatePathMatches)
-      // order matches by length (specificity)
-      .orderBy((op) => op.path.replace(RegExp(/\{.*?\}/g), '').length, 'desc')
-      // then check if one of the matched operations matches the method
-      .find(({ method }) => method === req.method)
-      .value();
+    if (strict) {
+      throw new MethodNotAllowedError();
+    } else {
+      return undefined;
+    }
+  }
 
-    if (!match) {
-      if (strict) {
-        throw Error('405-methodNotAllowed: this method is not registered for the route');
-      } else {
-        return undefined;
+  /**
+   * Resolves the server an operation was matched with and the request path relative to the server url
+   *
+   * @param {Request} req
+   * @param {Operation<D>} operation
+   * @returns {{ path: string; server?: ServerMatch }}
+   * @memberof OpenAPIRouter
+   */
+  public matchServer(req: Request, operation: Operation<D>): { path: string; server?: ServerMatch } {
+    const normalizedPath = this.normalizePath(this.normalizeRequest(req).path);
+    for (const { table, path, server } of this.getRouteTables(req, normalizedPath)) {
+      if (server && this.matchRoute(table, path, operation.method).operation === operation) {
+        return { path, server };
       }
     }
+    return { path: normalizedPath };
+  }
 
-    return match;
+  /**
+   * Negotiates the response media type for a request from its Accept header and the operation's response content
+   *
+   * Negotiates against the 2XX responses of the operation, or the response for a status code when one is given
+   *
+   * @param {Request} req
+   * @param {Operation<D>} operation
+   * @param {number} [statusCode]
+   * @returns {string} a media type declared in the operation's responses, or undefined if none are acceptable
+   * @memberof OpenAPIRouter
+   */
+  public negotiateMediaType(req: Request, operation: Operation<D>, statusCode?: number): string | undefined {
+    const headers = _.mapKeys(req.headers, (val, header) => header.toLowerCase());
+    return OpenAPIUtils.negotiateMediaType(
+      headers['accept'],
+      OpenAPIUtils.getResponseMediaTypes(operation, statusCode),
+    );
+  }
+
+  /**
+   * Gets the routing tables to match a path against, along with the path relative to each table
+   *
+   * Without useServers the path is matched against all operations. Otherwise, each server whose url matches the path
+   * is returned, most specific first. With matchHost, absolute server urls must also match the request host and scheme.
+   *
+   * @private
+   * @param {Request} req
+   * @param {string} normalizedPath
+   * @returns {{ table: RouteTable<D>; path: string; server?: ServerMatch }[]}
+   * @memberof OpenAPIRouter
+   */
+  private getRouteTables(
+    req: Request,
+    normalizedPath: string,
+  ): { table: RouteTable<D>; path: string; server?: ServerMatch }[] {
+    if (!this.useServers) {
+      return [{ table: this.operationIndex.routes, path: normalizedPath }];
+    }
+
+    const origin = this.matchHost ? this.getRequestOrigin(req) : {};
+    const tables: { table: RouteTable<D>; path: string; server?: ServerMatch }[] = [];
+    for (const serverRoute of this.operationIndex.servers) {
+      const variables = { ...serverRoute.defaults };
+
+      if (this.matchHost && serverRoute.host) {
+        // requests without a host never match absolute server urls
+        if (!origin.host || !execServerUrlPattern(serverRoute.host, origin.host, variables)) {
+          continue;
+        }
+        // scheme is only checked when the request tells us which scheme it was made with
+        if (
+          serverRoute.scheme &&
+          origin.scheme &&
+          !execServerUrlPattern(serverRoute.scheme, origin.scheme, variables)
+        ) {
+          continue;
+        }
+      }
+
+      const match = execServerUrlPattern(serverRoute.path, normalizedPath, variables);
+      if (match) {
+        tables.push({
+          table: serverRoute,
+          path: normalizedPath.slice(match[0].length) || '/',
+          server: { url: serverRoute.url, basePath: match[0] || '/', variables },
+        });
+      }
+    }
+    return tables;
+  }
+
+  /**
+   * Gets the host and scheme a request was made with from Host and X-Forwarded-* headers
+   *
+   * @private
+   * @param {Request} req
+   * @returns {{ host?: string; scheme?: string }}
+   * @memberof OpenAPIRouter
+   */
+  private getRequestOrigin(req: Request): { host?: string; scheme?: string } {
+    const headers = _.mapKeys(req.headers, (val, header) => header.toLowerCase());
+    // proxies may append to forwarded headers, the first value is the original
+    const firstValue = (header: string | string[] | undefined) =>
+      _.flatten([header])[0]?.split(',')[0].trim() || undefined;
+    return {
+      host: firstValue(headers['x-forwarded-host']) || firstValue(headers['host']),
+      scheme: firstValue(headers['x-forwarded-proto']),
+    };
+  }
+
+  /**
+   * Matches a path and method against a routing table
+   *
+   * @private
+   * @param {RouteTable<D>} table
+   * @param {string} path
+   * @param {string} method
+   * @returns {{ operation?: Operation<D>; pathMatched: boolean }}
+   * @memberof OpenAPIRouter
+   */
+  private matchRoute(
+    table: RouteTable<D>,
+    path: string,
+    method: string,
+  ): { operation?: Operation<D>; pathMatched: boolean } {
+    // check if there's an exact path match with correct method and return if found
+    const exactMatch = table.routesByPath.get(path)?.operations.get(method);
+    if (exactMatch) {
+      return { operation: exactMatch, pathMatched: true };
+    }
+
+    // walk the routing trie to find all paths matching the request
+    const segments = path.split('/').slice(1);
+    const pathMatches: PathRoute<D>[] = [];
+    this.findRoutes(table.root, segments, 0, pathMatches);
+
+    // order matches by specificity, then check if one of the matched paths has an operation for the method
+    pathMatches.sort((a, b) => b.specificity - a.specificity || a.order - b.order);
+    const operation = pathMatches.find(({ operations }) => operations.has(method))?.operations.get(method);
+
+    return { operation, pathMatched: pathMatches.length > 0 };
+  }
+
+  /**
+   * Builds the operation index and routing tries from the operations in the definition
+   *
+   * @private
+   * @returns {OperationIndex<D>}
+   * @memberof OpenAPIRouter
+   */
+  private buildOperationIndex(): OperationIndex<D> {
+    const operations = Object.freeze(this.flattenOperations()) as Operation<D>[];
+    const operationsById = new Map<string, Operation<D>>();
+    const routes: RouteTable<D> = { root: { static: new Map(), dynamic: [] }, routesByPath: new Map() };
+    const serversByKey = new Map<string, ServerRoute<D>>();
+
+    for (const operation of operations) {
+      // the first operation wins if operationIds are not unique
+      if (operation.operationId && !operationsById.has(operation.operationId)) {
+        operationsById.set(operation.operationId, operation);
+      }
+
+      this.insertRoute(routes, operation);
+
+      // index the operation under each server it is served from
+      for (const server of operation.servers as OpenAPIV3.ServerObject[]) {
+        const serverRoute = this.buildServerRoute(server);
+        if (!serversByKey.has(serverRoute.key)) {
+          serversByKey.set(serverRoute.key, serverRoute);
+        }
+        this.insertRoute(serversByKey.get(serverRoute.key) as ServerRoute<D>, operation);
+      }
+    }
+
+    // most specific servers are matched first
+    const servers = [...serversByKey.values()].sort((a, b) => b.specificity - a.specificity);
+
+    return { operations, operationsById, routes, servers };
+  }
+
+  /**
+   * Builds an empty routing table for a server, with a pattern to match its base path and server variables
+   *
+   * @private
+   * @param {OpenAPIV3.ServerObject} server
+   * @returns {ServerRoute<D>}
+   * @memberof OpenAPIRouter
+   */
+  private buildServerRoute(server: OpenAPIV3.ServerObject): ServerRoute<D> {
+    const variables = server.variables || {};
+
+    // split scheme and host from the server url, and strip query string and trailing slashes from the path
+    const [origin, scheme, host] = /^(?:([^/:?#]*):)?\/\/([^/?#]*)/.exec(server.url) || [''];
+    let basePath = server.url.slice(origin.length).split(/[?#]/)[0].replace(/\/+$/, '');
+    if (basePath && !basePath.startsWith('/')) {
+      basePath = `/${basePath}`;
+    }
+
+    const path = compileServerUrlTemplate(basePath, variables, '[^/]+');
+    const serverRoute: ServerRoute<D> = {
+      key: `${server.url} ${JSON.stringify(variables)}`,
+      url: server.url,
+      specificity: basePath.replace(/\{.*?\}/g, '').length,
+      path: { pattern: new RegExp(`^${path.source}(?=/|$)`), variableNames: path.variableNames },
+      defaults: _.mapValues(variables, (variable) => `${variable.default}`),
+      root: { static: new Map(), dynamic: [] },
+      routesByPath: new Map(),
+    };
+
+    if (host) {
+      // hosts without an explicit port match any port
+      const hostPattern = compileServerUrlTemplate(host, variables, '[^/]+');
+      const port = host.includes(':') ? '' : '(?::\\d+)?';
+      serverRoute.host = {
+        pattern: new RegExp(`^${hostPattern.source}${port}$`, 'i'),
+        variableNames: hostPattern.variableNames,
+      };
+    }
+    if (scheme) {
+      const schemePattern = compileServerUrlTemplate(scheme, variables, '[^:/]+');
+      serverRoute.scheme = {
+        pattern: new RegExp(`^${schemePattern.source}$`, 'i'),
+        variableNames: schemePattern.variableNames,
+      };
+    }
+
+    return serverRoute;
+  }
+
+  /**
+   * Inserts an operation into a routing table
+   *
+   * @private
+   * @param {RouteTable<D>} table
+   * @param {Operation<D>} operation
+   * @memberof OpenAPIRouter
+   */
+  private insertRoute(table: RouteTable<D>, operation: Operation<D>): void {
+    let route = table.routesByPath.get(operation.path);
+    if (!route) {
+      route = {
+        path: operation.path,
+        // specificity is the length of the path without templates
+        specificity: operation.path.replace(/\{.*?\}/g, '').length,
+        order: table.routesByPath.size,
+        operations: new Map(),
+      };
+      table.routesByPath.set(operation.path, route);
+
+      // insert the path into the trie one segment at a time
+      let node = table.root;
+      for (const segment of operation.path.split('/').slice(1)) {
+        if (segment.includes('{')) {
+          let dynamic = node.dynamic.find(({ template }) => template === segment);
+          if (!dynamic) {
+            // convert openapi path template to a regex pattern i.e. {id}.json becomes [^/]+\.json
+            const pattern = segment
+              .split(/\{.*?\}/)
+              .map((part) => _.escapeRegExp(part))
+              .join('[^/]+');
+            dynamic = {
+              template: segment,
+              pattern: new RegExp(`^${pattern}$`),
+              node: { static: new Map(), dynamic: [] },
+            };
+            node.dynamic.push(dynamic);
+          }
+          node = dynamic.node;
+        } else {
+          if (!node.static.has(segment)) {
+            node.static.set(segment, { static: new Map(), dynamic: [] });
+          }
+          node = node.static.get(segment) as RouteNode<D>;
+        }
+      }
+      node.route = route;
+    }
+    if (!route.operations.has(operation.method)) {
+      route.operations.set(operation.method, operation);
+    }
+  }
+
+  /**
+   * Recursively collects all routes in the trie matching the given path segments
+   *
+   * @private
+   * @param {RouteNode<D>} node
+   * @param {string[]} segments
+   * @param {number} depth
+   * @param {PathRoute<D>[]} matches
+   * @memberof OpenAPIRouter
+   */
+  private findRoutes(node: RouteNode<D>, segments: string[], depth: number, matches: PathRoute<D>[]): void {
+    if (depth === segments.length) {
+      if (node.route) {
+        matches.push(node.route);
+      }
+      return;
+    }
+
+    const segment = segments[depth];
+    const staticNode = node.static.get(segment);
+    if (staticNode) {
+      this.findRoutes(staticNode, segments, depth + 1, matches);
+    }
+    for (const { pattern, node: dynamicNode } of node.dynamic) {
+      if (pattern.test(segment)) {
+        this.findRoutes(dynamicNode, segments, depth + 1, matches);
+      }
+    }
   }
 
   /**
    * Flattens operations into a simple array of Operation objects easy to work with
    *
+   * The returned array is frozen and cached until the definition is replaced, so the same Operation objects are
+   * returned on every call.
+   *
    * @returns {Operation<D>[]}
    * @memberof OpenAPIRouter
    */
   public getOperations(): Operation<D>[] {
+    return this.operationIndex.operations;
+  }
+
+  /**
+   * Gets a single operation based on operationId
+   *
+   * @param {string} operationId
+   * @returns {Operation<D>}
+   * @memberof OpenAPIRouter
+   */
+  public getOperation(operationId: string): Operation<D> | undefined {
+    return this.operationIndex.operationsById.get(operationId);
+  }
+
+  /**
+   * Gets a single operation based on http method and path template
+   *
+   * @param {string} method
+   * @param {string} path - path template as defined in the document, i.e. /pets/{id}
+   * @returns {Operation<D>}
+   * @memberof OpenAPIRouter
+   */
+  public getOperationByPath(method: string, path: string): Operation<D> | undefined {
+    return this.operationIndex.routes.routesByPath.get(path)?.operations.get(method.toLowerCase());
+  }
+
+  /**
+   * Flattens the paths in the definition into an array of Operation objects
+   *
+   * @private
+   * @returns {Operation<D>[]}
+   * @memberof OpenAPIRouter
+   */
+  private flattenOperations(): Operation<D>[] {
     const paths = this.definition?.paths || {};
     return _.chain(paths)
       .entries()
@@ -195,23 +697,16 @@ export class OpenAPIRouter<D extends Document = Document> {
             ],
             // operation-specific security requirement override global requirements
             security: op.security || this.definition.security || [],
+            // operation and path-specific servers override global servers, defaulting to a server with url /
+            servers: [op.servers, pathBaseObject?.servers, this.definition.servers].find(
+              (servers) => servers?.length,
+            ) || [{ url: '/' }],
           };
         });
       })
       .value();
   }
 
-  /**
-   * Gets a single operation based on operationId
-   *
-   * @param {string} operationId
-   * @returns {Operation<D>}
-   * @memberof OpenAPIRouter
-   */
-  public getOperation(operationId: string): Operation<D> | undefined {
-    return this.getOperations().find((op) => op.operationId === operationId);
-  }
-
   /**
    * Normalises request:
    * - http method to lowercase
@@ -266,10 +761,12 @@ export class OpenAPIRouter<D extends Document = Document> {
 
   /**
    * Parses and normalizes a request
-   * - parse json body
+   * - parse json, urlencoded and multipart body
    * - parse query string
-   * - parse cookies from headers
+   * - parse cookies from headers, unless already parsed
+   * - parse header and cookie params based on style and schema
    * - parse path params based on uri template
+   * - resolve matched server and server variables
    *
    * @export
    * @param {Request} req
@@ -278,76 +775,67 @@ export class OpenAPIRouter<D extends Document = Document> {
    * @returns {ParsedRequest}
    */
   public parseRequest(req: Request, operation?: Operation<D>): ParsedRequest {
-    let requestBody = req.body;
-    if (req.body && typeof req.body !== 'object') {
-      try {
-        // attempt to parse json
-        requestBody = JSON.parse(req.body.toString());
-      } catch {
-        // suppress json parsing errors
-        // we will emit error if validation requires it later
-      }
-    }
-
     // header keys are converted to lowercase, so Content-Type becomes content-type
-    const headers = _.mapKeys(req.headers, (val, header) => header.toLowerCase());
+    let headers: { [header: string]: UnknownParams } = _.mapKeys(req.headers, (val, header) => header.toLowerCase());
 
     // parse cookie from headers
-    const cookieHeader = headers['cookie'];
-    const cookies = cookie.parse(_.flatten([cookieHeader]).join('; '));
+    const cookieHeader = _.flatten([headers['cookie']]).join('; ');
+    let cookies: { [cookie: string]: UnknownParams } = req.cookies
+      ? _.cloneDeep(req.cookies)
+      : cookie.parse(cookieHeader);
 
     // parse query
     const qs = typeof req.query === 'object' ? new URLSearchParams(req.query).toString() : req.query;
     const queryString = typeof qs === 'string' ? qs.replace('?', '') : req.path.split('?')[1];
-    const query = typeof req.query === 'object' ? _.cloneDeep(req.query) : parseQuery(queryString);
+    let query = typeof req.query === 'object' ? _.cloneDeep(req.query) : parseQuery(queryString);
+
+    // parse request body based on content type
+    const contentType = headers['content-type'];
+    const mediaType = OpenAPIUtils.findRequestBodyMediaType(operation, contentType);
+    const requestBody = OpenAPIDeserializer.deserializeRequestBody(
+      req.body,
+      contentType,
+      mediaType ? (operation.requestBody as OpenAPIV3_1.RequestBodyObject).content[mediaType] : undefined,
+    );
 
     // normalize
     req = this.normalizeRequest(req);
 
-    let params: Parameters = {};
+    let params: { [name: string]: UnknownParams } = {};
+    let server: ServerMatch | undefined;
     if (operation) {
-      // get relative path
-      const normalizedPath = this.normalizePath(req.path);
+      // get path relative to apiRoot and the matched server
+      const match = this.matchServer(req, operation);
+      server = match.server;
+
+      // parse path params if path is given, deserializing them with the specified style for parameter
+      const rawPathParams = OpenAPIDeserializer.matchPathTemplate(operation.path, match.path) || {};
+      params = _.mapValues(rawPathParams, (rawValue, name) => {
+        const parameter = operation.parameters?.find(
+          (param) => !('$ref' in param) && param?.in === 'path' && param?.name === name,
+        ) as PickVersionElement<D, OpenAPIV3.ParameterObject, OpenAPIV3_1.ParameterObject>;
+        return parameter
+          ? OpenAPIDeserializer.deserializePathParameter(parameter, rawValue)
+          : OpenAPIDeserializer.decode(rawValue);
+      });
 
-      // parse path params if path is given
-      const pathParams = bath(operation.path);
-      params = pathParams.params(normalizedPath) || {};
       // parse query parameters with specified style for parameter
-      for (const queryParam in query) {
-        if (query[queryParam]) {
-          const parameter = operation.parameters?.find(
-            (param) => !('$ref' in param) && param?.in === 'query' && param?.name === queryParam,
-          ) as PickVersionElement<D, OpenAPIV3.ParameterObject, OpenAPIV3_1.ParameterObject>;
-
-          if (parameter) {
-            if (parameter.content && parameter.content['application/json']) {
-              const rawValue = query[queryParam];
-              if (typeof rawValue === 'string') {
-                query[queryParam] = JSON.parse(rawValue);
-              }
-            } else if (parameter.explode === false) {
-              // Handle parameter parsing for non-exploded arrays
-              const rawValue = query[queryParam];
-              if (Array.isArray(rawValue) && rawValue.length > 1) {
-                // param has already been decoded (type coercion flow)
-                continue;
-              }
-              const value = Array.isArray(rawValue) ? rawValue[0] : rawValue;
-              if (typeof value !== 'string') {
-                continue;
-              }
-              let decoded = value.replace(/%2C/g, ',');
-              if (parameter.style === 'spaceDelimited') {
-                decoded = decoded.replace(/ /g, ',').replace(/%20/g, ',');
-              }
-              if (parameter.style === 'pipeDelimited') {
-                decoded = decoded.replace(/\|/g, ',').replace(/%7C/g, ',');
-              }
-              query[queryParam] = decoded.split(',');
-            }
-          }
-        }
-      }
+      query = OpenAPIDeserializer.deserializeQueryParameters(
+        query,
+        (operation.parameters || []) as PickVersionElement<D, OpenAPIV3.ParameterObject, OpenAPIV3_1.ParameterObject>[],
+        typeof req.query === 'object' ? undefined : queryString,
+      );
+
+      // parse header and cookie parameters with specified style for parameter
+      headers = OpenAPIDeserializer.deserializeHeaderParameters(
+        headers,
+        (operation.parameters || []) as PickVersionElement<D, OpenAPIV3.ParameterObject, OpenAPIV3_1.ParameterObject>[],
+      );
+      cookies = OpenAPIDeserializer.deserializeCookieParameters(
+        cookies,
+        (operation.parameters || []) as PickVersionElement<D, OpenAPIV3.ParameterObject, OpenAPIV3_1.ParameterObject>[],
+        cookieHeader,
+      );
     }
 
     return {
@@ -357,6 +845,7 @@ export class OpenAPIRouter<D extends Document = Document> {
       query,
       cookies,
       requestBody,
+      ...(server ? { server } : {}),
     };
   }
 }
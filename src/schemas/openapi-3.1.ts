@@ -0,0 +1,460 @@
+/**
+ * JSON Schema for OpenAPI 3.1 documents, following https://spec.openapis.org/oas/3.1/schema/2022-10-07
+ *
+ * Schema Objects are validated against the JSON Schema 2020-12 meta-schema, unless they declare their own $schema.
+ */
+export const openapi31Schema = {
+  $id: 'https://spec.openapis.org/oas/3.1/schema/2022-10-07',
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  type: 'object',
+  properties: {
+    openapi: { type: 'string', pattern: '^3\\.1\\.\\d+(-.+)?$' },
+    info: { $ref: '#/$defs/info' },
+    jsonSchemaDialect: { type: 'string', format: 'uri' },
+    servers: { type: 'array', items: { $ref: '#/$defs/server' } },
+    paths: { $ref: '#/$defs/paths' },
+    webhooks: { type: 'object', additionalProperties: { $ref: '#/$defs/path-item-or-reference' } },
+    components: { $ref: '#/$defs/components' },
+    security: { type: 'array', items: { $ref: '#/$defs/security-requirement' } },
+    tags: { type: 'array', items: { $ref: '#/$defs/tag' } },
+    externalDocs: { $ref: '#/$defs/external-documentation' },
+  },
+  required: ['openapi', 'info'],
+  anyOf: [{ required: ['paths'] }, { required: ['components'] }, { required: ['webhooks'] }],
+  $ref: '#/$defs/specification-extensions',
+  unevaluatedProperties: false,
+  $defs: {
+    info: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        termsOfService: { type: 'string', format: 'uri' },
+        contact: { $ref: '#/$defs/contact' },
+        license: { $ref: '#/$defs/license' },
+        version: { type: 'string' },
+      },
+      required: ['title', 'version'],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    contact: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        url: { type: 'string', format: 'uri' },
+        email: { type: 'string', format: 'email' },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    license: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        identifier: { type: 'string' },
+        url: { type: 'string', format: 'uri' },
+      },
+      required: ['name'],
+      dependentSchemas: {
+        identifier: { not: { required: ['url'] } },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    server: {
+      type: 'object',
+      properties: {
+        url: { type: 'string' },
+        description: { type: 'string' },
+        variables: { type: 'object', additionalProperties: { $ref: '#/$defs/server-variable' } },
+      },
+      required: ['url'],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'server-variable': {
+      type: 'object',
+      properties: {
+        enum: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        default: { type: 'string' },
+        description: { type: 'string' },
+      },
+      required: ['default'],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    components: {
+      type: 'object',
+      properties: {
+        schemas: { type: 'object', additionalProperties: { $ref: '#/$defs/schema' } },
+        responses: { type: 'object', additionalProperties: { $ref: '#/$defs/response-or-reference' } },
+        parameters: { type: 'object', additionalProperties: { $ref: '#/$defs/parameter-or-reference' } },
+        examples: { type: 'object', additionalProperties: { $ref: '#/$defs/example-or-reference' } },
+        requestBodies: { type: 'object', additionalProperties: { $ref: '#/$defs/request-body-or-reference' } },
+        headers: { type: 'object', additionalProperties: { $ref: '#/$defs/header-or-reference' } },
+        securitySchemes: { type: 'object', additionalProperties: { $ref: '#/$defs/security-scheme-or-reference' } },
+        links: { type: 'object', additionalProperties: { $ref: '#/$defs/link-or-reference' } },
+        callbacks: { type: 'object', additionalProperties: { $ref: '#/$defs/callbacks-or-reference' } },
+        pathItems: { type: 'object', additionalProperties: { $ref: '#/$defs/path-item-or-reference' } },
+      },
+      patternProperties: {
+        '^(schemas|responses|parameters|examples|requestBodies|headers|securitySchemes|links|callbacks|pathItems)$': {
+          propertyNames: { pattern: '^[a-zA-Z0-9._-]+$' },
+        },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    paths: {
+      type: 'object',
+      patternProperties: {
+        '^/': { $ref: '#/$defs/path-item' },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'path-item': {
+      type: 'object',
+      properties: {
+        $ref: { type: 'string', format: 'uri-reference' },
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        servers: { type: 'array', items: { $ref: '#/$defs/server' } },
+        parameters: { type: 'array', items: { $ref: '#/$defs/parameter-or-reference' } },
+        get: { $ref: '#/$defs/operation' },
+        put: { $ref: '#/$defs/operation' },
+        post: { $ref: '#/$defs/operation' },
+        delete: { $ref: '#/$defs/operation' },
+        options: { $ref: '#/$defs/operation' },
+        head: { $ref: '#/$defs/operation' },
+        patch: { $ref: '#/$defs/operation' },
+        trace: { $ref: '#/$defs/operation' },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'path-item-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/path-item' },
+    },
+    operation: {
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string' } },
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        externalDocs: { $ref: '#/$defs/external-documentation' },
+        operationId: { type: 'string' },
+        parameters: { type: 'array', items: { $ref: '#/$defs/parameter-or-reference' } },
+        requestBody: { $ref: '#/$defs/request-body-or-reference' },
+        responses: { $ref: '#/$defs/responses' },
+        callbacks: { type: 'object', additionalProperties: { $ref: '#/$defs/callbacks-or-reference' } },
+        deprecated: { type: 'boolean' },
+        security: { type: 'array', items: { $ref: '#/$defs/security-requirement' } },
+        servers: { type: 'array', items: { $ref: '#/$defs/server' } },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'external-documentation': {
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        url: { type: 'string', format: 'uri' },
+      },
+      required: ['url'],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    parameter: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        in: { enum: ['query', 'header', 'path', 'cookie'] },
+        description: { type: 'string' },
+        required: { type: 'boolean' },
+        deprecated: { type: 'boolean' },
+        allowEmptyValue: { type: 'boolean' },
+        style: { type: 'string' },
+        explode: { type: 'boolean' },
+        allowReserved: { type: 'boolean' },
+        schema: { $ref: '#/$defs/schema' },
+        content: { $ref: '#/$defs/content', minProperties: 1, maxProperties: 1 },
+      },
+      required: ['name', 'in'],
+      oneOf: [{ required: ['schema'] }, { required: ['content'] }],
+      allOf: [
+        { $ref: '#/$defs/examples' },
+        {
+          if: { properties: { in: { const: 'path' } }, required: ['in'] },
+          then: {
+            properties: { required: { const: true }, style: { enum: ['matrix', 'label', 'simple'] } },
+            required: ['required'],
+          },
+        },
+        {
+          if: { properties: { in: { const: 'header' } }, required: ['in'] },
+          then: { properties: { style: { const: 'simple' } } },
+        },
+        {
+          if: { properties: { in: { const: 'query' } }, required: ['in'] },
+          then: { properties: { style: { enum: ['form', 'spaceDelimited', 'pipeDelimited', 'deepObject'] } } },
+        },
+        {
+          if: { properties: { in: { const: 'cookie' } }, required: ['in'] },
+          then: { properties: { style: { const: 'form' } } },
+        },
+      ],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'parameter-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/parameter' },
+    },
+    'request-body': {
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        content: { $ref: '#/$defs/content' },
+        required: { type: 'boolean' },
+      },
+      required: ['content'],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'request-body-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/request-body' },
+    },
+    content: {
+      type: 'object',
+      additionalProperties: { $ref: '#/$defs/media-type' },
+    },
+    'media-type': {
+      type: 'object',
+      properties: {
+        schema: { $ref: '#/$defs/schema' },
+        encoding: { type: 'object', additionalProperties: { $ref: '#/$defs/encoding' } },
+      },
+      allOf: [{ $ref: '#/$defs/specification-extensions' }, { $ref: '#/$defs/examples' }],
+      unevaluatedProperties: false,
+    },
+    encoding: {
+      type: 'object',
+      properties: {
+        contentType: { type: 'string' },
+        headers: { type: 'object', additionalProperties: { $ref: '#/$defs/header-or-reference' } },
+        style: { enum: ['form', 'spaceDelimited', 'pipeDelimited', 'deepObject'] },
+        explode: { type: 'boolean' },
+        allowReserved: { type: 'boolean' },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    responses: {
+      type: 'object',
+      properties: {
+        default: { $ref: '#/$defs/response-or-reference' },
+      },
+      patternProperties: {
+        '^[1-5](?:[0-9]{2}|XX)$': { $ref: '#/$defs/response-or-reference' },
+      },
+      minProperties: 1,
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    response: {
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        headers: { type: 'object', additionalProperties: { $ref: '#/$defs/header-or-reference' } },
+        content: { $ref: '#/$defs/content' },
+        links: { type: 'object', additionalProperties: { $ref: '#/$defs/link-or-reference' } },
+      },
+      required: ['description'],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'response-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/response' },
+    },
+    callbacks: {
+      type: 'object',
+      $ref: '#/$defs/specification-extensions',
+      additionalProperties: { $ref: '#/$defs/path-item-or-reference' },
+    },
+    'callbacks-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/callbacks' },
+    },
+    example: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        value: true,
+        externalValue: { type: 'string', format: 'uri' },
+      },
+      not: { required: ['value', 'externalValue'] },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'example-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/example' },
+    },
+    link: {
+      type: 'object',
+      properties: {
+        operationRef: { type: 'string', format: 'uri-reference' },
+        operationId: { type: 'string' },
+        parameters: { type: 'object' },
+        requestBody: true,
+        description: { type: 'string' },
+        server: { $ref: '#/$defs/server' },
+      },
+      not: { required: ['operationRef', 'operationId'] },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'link-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/link' },
+    },
+    header: {
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        required: { type: 'boolean' },
+        deprecated: { type: 'boolean' },
+        style: { const: 'simple' },
+        explode: { type: 'boolean' },
+        schema: { $ref: '#/$defs/schema' },
+        content: { $ref: '#/$defs/content', minProperties: 1, maxProperties: 1 },
+      },
+      oneOf: [{ required: ['schema'] }, { required: ['content'] }],
+      allOf: [{ $ref: '#/$defs/specification-extensions' }, { $ref: '#/$defs/examples' }],
+      unevaluatedProperties: false,
+    },
+    'header-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/header' },
+    },
+    tag: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        externalDocs: { $ref: '#/$defs/external-documentation' },
+      },
+      required: ['name'],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    reference: {
+      type: 'object',
+      properties: {
+        $ref: { type: 'string', format: 'uri-reference' },
+        summary: { type: 'string' },
+        description: { type: 'string' },
+      },
+    },
+    schema: {
+      if: { type: 'object', required: ['$schema'] },
+      then: { type: 'object' },
+      else: { $ref: 'https://json-schema.org/draft/2020-12/schema' },
+    },
+    'security-scheme': {
+      type: 'object',
+      properties: {
+        type: { enum: ['apiKey', 'http', 'mutualTLS', 'oauth2', 'openIdConnect'] },
+        description: { type: 'string' },
+        name: { type: 'string' },
+        in: { enum: ['query', 'header', 'cookie'] },
+        scheme: { type: 'string' },
+        bearerFormat: { type: 'string' },
+        flows: { $ref: '#/$defs/oauth-flows' },
+        openIdConnectUrl: { type: 'string', format: 'uri' },
+      },
+      required: ['type'],
+      allOf: [
+        {
+          if: { properties: { type: { const: 'apiKey' } }, required: ['type'] },
+          then: { required: ['name', 'in'] },
+        },
+        {
+          if: { properties: { type: { const: 'http' } }, required: ['type'] },
+          then: { required: ['scheme'] },
+        },
+        {
+          if: { properties: { type: { const: 'oauth2' } }, required: ['type'] },
+          then: { required: ['flows'] },
+        },
+        {
+          if: { properties: { type: { const: 'openIdConnect' } }, required: ['type'] },
+          then: { required: ['openIdConnectUrl'] },
+        },
+      ],
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'security-scheme-or-reference': {
+      if: { type: 'object', required: ['$ref'] },
+      then: { $ref: '#/$defs/reference' },
+      else: { $ref: '#/$defs/security-scheme' },
+    },
+    'oauth-flows': {
+      type: 'object',
+      properties: {
+        implicit: { $ref: '#/$defs/oauth-flow', required: ['authorizationUrl', 'scopes'] },
+        password: { $ref: '#/$defs/oauth-flow', required: ['tokenUrl', 'scopes'] },
+        clientCredentials: { $ref: '#/$defs/oauth-flow', required: ['tokenUrl', 'scopes'] },
+        authorizationCode: { $ref: '#/$defs/oauth-flow', required: ['authorizationUrl', 'tokenUrl', 'scopes'] },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'oauth-flow': {
+      type: 'object',
+      properties: {
+        authorizationUrl: { type: 'string', format: 'uri' },
+        tokenUrl: { type: 'string', format: 'uri' },
+        refreshUrl: { type: 'string', format: 'uri' },
+        scopes: { $ref: '#/$defs/map-of-strings' },
+      },
+      $ref: '#/$defs/specification-extensions',
+      unevaluatedProperties: false,
+    },
+    'security-requirement': {
+      type: 'object',
+      additionalProperties: { type: 'array', items: { type: 'string' } },
+    },
+    'specification-extensions': {
+      patternProperties: {
+        '^x-': true,
+      },
+    },
+    examples: {
+      properties: {
+        example: true,
+        examples: { type: 'object', additionalProperties: { $ref: '#/$defs/example-or-reference' } },
+      },
+    },
+    'map-of-strings': {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+    },
+  },
+};
@@ -185,4 +185,120 @@ describe('OpenAPIUtils', () => {
       expect(value.res).toEqual('305');
     });
   });
+
+  describe('.findMediaTypeMatch', () => {
+    const mediaTypes = ['application/json', 'application/*+json', 'text/*', '*/*'];
+
+    test('matches exact media type', async () => {
+      expect(OpenAPIUtils.findMediaTypeMatch('application/json', mediaTypes)).toEqual('application/json');
+    });
+
+    test('matches ignoring case and parameters', async () => {
+      expect(OpenAPIUtils.findMediaTypeMatch('Application/JSON; charset=utf-8', mediaTypes)).toEqual(
+        'application/json',
+      );
+    });
+
+    test('matches structured syntax suffix range', async () => {
+      expect(OpenAPIUtils.findMediaTypeMatch('application/merge-patch+json', mediaTypes)).toEqual('application/*+json');
+    });
+
+    test('matches subtype range', async () => {
+      expect(OpenAPIUtils.findMediaTypeMatch('text/plain', mediaTypes)).toEqual('text/*');
+    });
+
+    test('matches any media type range', async () => {
+      expect(OpenAPIUtils.findMediaTypeMatch('image/png', mediaTypes)).toEqual('*/*');
+    });
+
+    test('mismatches', async () => {
+      expect(OpenAPIUtils.findMediaTypeMatch('image/png', ['application/json', 'text/*'])).toEqual(undefined);
+    });
+  });
+
+  describe('.findRequestBodyMediaType', () => {
+    const operation = {
+      path: '/pets',
+      method: 'post',
+      requestBody: {
+        content: {
+          'multipart/form-data': {},
+          'application/json': {},
+          'application/merge-patch+json': {},
+        },
+      },
+    };
+
+    test('matches request content type', async () => {
+      expect(OpenAPIUtils.findRequestBodyMediaType(operation, 'application/merge-patch+json')).toEqual(
+        'application/merge-patch+json',
+      );
+    });
+
+    test('defaults to application/json without content type', async () => {
+      expect(OpenAPIUtils.findRequestBodyMediaType(operation)).toEqual('application/json');
+    });
+
+    test('defaults to first media type without content type', async () => {
+      const formOperation = { ...operation, requestBody: { content: { 'multipart/form-data': {} } } };
+      expect(OpenAPIUtils.findRequestBodyMediaType(formOperation)).toEqual('multipart/form-data');
+    });
+
+    test('mismatches undeclared content type', async () => {
+      expect(OpenAPIUtils.findRequestBodyMediaType(operation, 'text/plain')).toEqual(undefined);
+    });
+
+    test('mismatches operation without request body', async () => {
+      expect(OpenAPIUtils.findRequestBodyMediaType({ path: '/pets', method: 'get' }, 'application/json')).toEqual(
+        undefined,
+      );
+    });
+  });
+
+  describe('.negotiateMediaType', () => {
+    const mediaTypes = ['application/json', 'text/html', 'text/csv'];
+
+    test('picks first media type without accept header', async () => {
+      expect(OpenAPIUtils.negotiateMediaType(undefined, mediaTypes)).toEqual('application/json');
+    });
+
+    test('picks exact match', async () => {
+      expect(OpenAPIUtils.negotiateMediaType('text/csv', mediaTypes)).toEqual('text/csv');
+    });
+
+    test('picks highest quality value', async () => {
+      expect(OpenAPIUtils.negotiateMediaType('application/json;q=0.8, text/html;q=0.9', mediaTypes)).toEqual(
+        'text/html',
+      );
+    });
+
+    test('picks by order of media types on equal quality', async () => {
+      expect(OpenAPIUtils.negotiateMediaType('text/csv, text/html', mediaTypes)).toEqual('text/html');
+    });
+
+    test('weighs media types by the most specific matching range', async () => {
+      expect(OpenAPIUtils.negotiateMediaType('text/*;q=0.5, text/csv, */*;q=0.1', mediaTypes)).toEqual('text/csv');
+    });
+
+    test('matches media type ranges', async () => {
+      expect(OpenAPIUtils.negotiateMediaType('text/plain', ['application/json', 'text/*'])).toEqual('text/*');
+    });
+
+    test('excludes media types with zero quality', async () => {
+      expect(OpenAPIUtils.negotiateMediaType('*/*, application/json;q=0', mediaTypes)).toEqual('text/html');
+    });
+
+    test('mismatches', async () => {
+      expect(OpenAPIUtils.negotiateMediaType('image/png', mediaTypes)).toEqual(undefined);
+    });
+  });
+
+  describe('.isOpenAPIV3_1', () => {
+    test('detects 3.1 documents', () => {
+      const info = { title: 'api', version: '1.0.0' };
+      expect(OpenAPIUtils.isOpenAPIV3_1({ openapi: '3.1.0', info, paths: {} })).toBe(true);
+      expect(OpenAPIUtils.isOpenAPIV3_1({ openapi: '3.1.1', info, webhooks: {} })).toBe(true);
+      expect(OpenAPIUtils.isOpenAPIV3_1({ openapi: '3.0.3', info, paths: {} })).toBe(false);
+    });
+  });
 });
@@ -3,7 +3,9 @@
 
 import * as _ from 'lodash';
 import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
-import { Operation } from './router';
+import type { Operation } from './router';
+import type { OperationResponse } from './backend';
+import OpenAPIDeserializer from './deserialize';
 
 // alias Document to OpenAPIV3_1.Document
 type Document = OpenAPIV3_1.Document | OpenAPIV3.Document;
@@ -82,6 +84,159 @@ export default class OpenAPIUtils {
     };
   }
 
+  /**
+   * Finds the media type range in a list that best matches a given media type,
+   * based on the OpenAPI specification for media type ranges.
+   * Checks in the following order:
+   * 1. exact match, i.e. application/merge-patch+json
+   * 2. structured syntax suffix range, i.e. application/*+json
+   * 3. subtype range, i.e. application/*
+   * 4. range of any media type
+   * Returns the matching media type range as it appears in the list, or undefined otherwise.
+   * @param {string} contentType The media type to match, parameters such as charset are ignored.
+   * @param {string[]} mediaTypes The media type ranges to match against, i.e. keys of a content object.
+   * @returns {string}
+   */
+  public static findMediaTypeMatch(contentType: string | string[], mediaTypes: string[]): string | undefined {
+    const mediaType = OpenAPIDeserializer.getMediaType(contentType);
+    if (!mediaType) {
+      return undefined;
+    }
+    const [type, subtype] = mediaType.split('/');
+    const suffix = subtype?.includes('+') ? subtype.slice(subtype.lastIndexOf('+')) : undefined;
+
+    const candidates = [mediaType, ...(suffix ? [`${type}/*${suffix}`] : []), `${type}/*`, '*/*'];
+    for (const candidate of candidates) {
+      const match = mediaTypes.find((range) => OpenAPIDeserializer.getMediaType(range) === candidate);
+      if (match !== undefined) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Finds the media type of an operation's request body content that matches a request Content-Type
+   *
+   * Requests without a Content-Type are treated as application/json, falling back to the first declared media type
+   *
+   * @static
+   * @param {Operation<D>} operation
+   * @param {string} [contentType] Content-Type header of the request
+   * @returns {string} the matching key of the request body content object, or undefined if none match
+   * @memberof OpenAPIUtils
+   */
+  public static findRequestBodyMediaType<D extends Document = Document>(
+    operation: Operation<D>,
+    contentType?: string | string[],
+  ): string | undefined {
+    const requestBody = operation?.requestBody as OpenAPIV3_1.RequestBodyObject | OpenAPIV3.RequestBodyObject;
+    const mediaTypes = _.keys(requestBody?.content);
+    if (!mediaTypes.length) {
+      return undefined;
+    }
+    if (!OpenAPIDeserializer.getMediaType(contentType)) {
+      return this.findMediaTypeMatch('application/json', mediaTypes) ?? mediaTypes[0];
+    }
+    return this.findMediaTypeMatch(contentType, mediaTypes);
+  }
+
+  /**
+   * Negotiates the media type to respond with from an Accept header, based on RFC 9110 proactive negotiation.
+   * Each media type is weighted by the quality value of the most specific Accept range that matches it,
+   * the media type with the highest weight wins and ties are broken by the order of the list.
+   * Media types in the list may themselves be ranges, i.e. text/*.
+   * Returns the first media type if no Accept header is given, or undefined if none of the media types are acceptable.
+   * @param {string} accept The Accept header of the request, i.e. text/html, application/json;q=0.9
+   * @param {string[]} mediaTypes The media types available, in order of preference.
+   * @returns {string}
+   */
+  public static negotiateMediaType(accept: string | string[] | undefined, mediaTypes: string[]): string | undefined {
+    const ranges = _.flatten([accept])
+      .join(',')
+      .split(',')
+      .map((part) => {
+        const [range, ...params] = part.split(';');
+        const q = params.map((param) => param.trim().split('=')).find(([key]) => key.toLowerCase() === 'q');
+        return { range: range.trim().toLowerCase(), q: q ? Number(q[1]) || 0 : 1 };
+      })
+      .filter(({ range }) => range);
+
+    if (!ranges.length) {
+      return mediaTypes[0];
+    }
+
+    let best: { mediaType: string; q: number } | undefined;
+    for (const mediaType of mediaTypes) {
+      const [type, subtype] = (OpenAPIDeserializer.getMediaType(mediaType) || '').split('/');
+      let match: { q: number; specificity: number } | undefined;
+      for (const { range, q } of ranges) {
+        const [rangeType, rangeSubtype] = range.split('/');
+        const typeMatches = rangeType === '*' || type === '*' || rangeType === type;
+        const subtypeMatches = rangeSubtype === '*' || subtype === '*' || rangeSubtype === subtype;
+        const specificity = (rangeType === '*' ? 0 : 1) + (rangeSubtype === '*' ? 0 : 1);
+        if (typeMatches && subtypeMatches && (!match || specificity > match.specificity)) {
+          match = { q, specificity };
+        }
+      }
+      if (match && match.q > 0 && (!best || match.q > best.q)) {
+        best = { mediaType, q: match.q };
+      }
+    }
+    return best?.mediaType;
+  }
+
+  /**
+   * Get the media types of the responses of an operation, in order of declaration
+   *
+   * Without a status code, the media types of the 2XX responses are returned. Operations without 2XX responses
+   * return the media types of all their responses.
+   *
+   * @static
+   * @param {Operation<D>} operation
+   * @param {number} [statusCode] - only return the media types of the response for this status code
+   * @returns {string[]}
+   * @memberof OpenAPIUtils
+   */
+  public static getResponseMediaTypes<D extends Document = Document>(
+    operation: Operation<D>,
+    statusCode?: number,
+  ): string[] {
+    const responses = (operation?.responses || {}) as {
+      [statusCode: string]: OpenAPIV3_1.ResponseObject | OpenAPIV3.ResponseObject;
+    };
+    if (statusCode !== undefined) {
+      return _.keys(OpenAPIUtils.findStatusCodeMatch(statusCode, responses)?.content);
+    }
+    const successResponses = _.pickBy(responses, (response, status) => status.startsWith('2'));
+    const negotiable = _.isEmpty(successResponses) ? responses : successResponses;
+    return _.uniq(_.flatMap(_.values(negotiable), (response) => _.keys(response?.content)));
+  }
+
+  /**
+   * Checks whether a document is an OpenAPI 3.1 document, i.e. openapi: 3.1.0
+   *
+   * @static
+   * @param {Document} definition
+   * @returns {boolean}
+   * @memberof OpenAPIUtils
+   */
+  public static isOpenAPIV3_1(definition: Document): definition is OpenAPIV3_1.Document {
+    return /^3\.1\./.test(String(definition?.openapi));
+  }
+
+  /**
+   * Checks whether a handler return value is a structured OperationResponse, i.e. { statusCode: 200, body }
+   *
+   * @static
+   * @param {*} value
+   * @returns {boolean}
+   * @memberof OpenAPIUtils
+   */
+  public static isOperationResponse(value: any): value is OperationResponse {
+    return _.isPlainObject(value) && Number.isInteger(value.statusCode);
+  }
+
   /**
    * Get operationId, (or generate one) for an operation
    *
@@ -161,6 +161,78 @@ describe.each([{}, { lazyCompileValidators: true }])('OpenAPIValidator with opts
       });
     });
 
+    describe('path params with styles', () => {
+      const validator = new OpenAPIValidator({
+        definition: {
+          ...meta,
+          paths: {
+            '/pets/{ids}': {
+              get: {
+                operationId: 'getPetsByIds',
+                responses: { 200: { description: 'ok' } },
+                parameters: [
+                  {
+                    name: 'ids',
+                    in: 'path',
+                    required: true,
+                    style: 'matrix',
+                    explode: true,
+                    schema: {
+                      type: 'array',
+                      items: { type: 'integer' },
+                    },
+                  },
+                ],
+              },
+            },
+            '/owners/{owner}': {
+              get: {
+                operationId: 'getOwner',
+                responses: { 200: { description: 'ok' } },
+                parameters: [
+                  {
+                    name: 'owner',
+                    in: 'path',
+                    required: true,
+                    style: 'label',
+                    schema: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                      },
+                      additionalProperties: false,
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        ...constructorOpts,
+      });
+
+      test('passes validation for GET /pets/;ids=1;ids=2', async () => {
+        const valid = validator.validateRequest({ path: '/pets/;ids=1;ids=2', method: 'get', headers });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for GET /pets/;ids=1;ids=NaN', async () => {
+        const valid = validator.validateRequest({ path: '/pets/;ids=1;ids=NaN', method: 'get', headers });
+        expect(valid.errors).toHaveLength(1);
+      });
+
+      test('passes validation for GET /owners/.id,1,name,Alex', async () => {
+        const valid = validator.validateRequest({ path: '/owners/.id,1,name,Alex', method: 'get', headers });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for GET /owners/.id,1,age,5', async () => {
+        const valid = validator.validateRequest({ path: '/owners/.id,1,age,5', method: 'get', headers });
+        expect(valid.errors).toHaveLength(1);
+      });
+    });
+
     describe('path params with custom apiRoot', () => {
       const definition: OpenAPIV3_1.Document = {
         ...meta,
@@ -346,6 +418,74 @@ describe.each([{}, { lazyCompileValidators: true }])('OpenAPIValidator with opts
       });
     });
 
+    describe('exploded object query params', () => {
+      const validator = new OpenAPIValidator({
+        definition: {
+          ...meta,
+          paths: {
+            '/pets': {
+              get: {
+                operationId: 'getPets',
+                responses: { 200: { description: 'ok' } },
+                parameters: [
+                  {
+                    name: 'owner',
+                    in: 'query',
+                    schema: {
+                      type: 'object',
+                      properties: {
+                        name: { type: 'string' },
+                        age: { type: 'integer' },
+                      },
+                    },
+                  },
+                  {
+                    name: 'filter',
+                    in: 'query',
+                    style: 'deepObject',
+                    explode: true,
+                    schema: {
+                      type: 'object',
+                      properties: {
+                        tag: { type: 'string' },
+                      },
+                      additionalProperties: false,
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        ...constructorOpts,
+      });
+
+      test('passes validation for GET /pets?name=Alex&age=40', async () => {
+        const valid = validator.validateRequest({ path: '/pets?name=Alex&age=40', method: 'get', headers });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for GET /pets?name=Alex&age=old', async () => {
+        const valid = validator.validateRequest({ path: '/pets?name=Alex&age=old', method: 'get', headers });
+        expect(valid.errors).toHaveLength(1);
+      });
+
+      test('fails validation for GET /pets?unknown=1', async () => {
+        const valid = validator.validateRequest({ path: '/pets?unknown=1', method: 'get', headers });
+        expect(valid.errors).toHaveLength(1);
+      });
+
+      test('passes validation for GET /pets?filter[tag]=cat', async () => {
+        const valid = validator.validateRequest({ path: '/pets?filter[tag]=cat', method: 'get', headers });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for GET /pets?filter[color]=black', async () => {
+        const valid = validator.validateRequest({ path: '/pets?filter[color]=black', method: 'get', headers });
+        expect(valid.errors).toHaveLength(1);
+      });
+    });
+
     describe('passes validation for free-form query parameters', () => {
       const validator = new OpenAPIValidator({
         definition: {
@@ -457,6 +597,99 @@ describe.each([{}, { lazyCompileValidators: true }])('OpenAPIValidator with opts
       });
     });
 
+    describe('header and cookie params with styles', () => {
+      const validator = new OpenAPIValidator({
+        definition: {
+          ...meta,
+          paths: {
+            '/pets': {
+              get: {
+                operationId: 'getPets',
+                responses: { 200: { description: 'ok' } },
+                parameters: [
+                  {
+                    name: 'X-Ids',
+                    in: 'header',
+                    schema: { type: 'array', items: { type: 'integer' } },
+                  },
+                  {
+                    name: 'X-Meta',
+                    in: 'header',
+                    explode: true,
+                    schema: {
+                      type: 'object',
+                      properties: { a: { type: 'integer' }, b: { type: 'integer' } },
+                      additionalProperties: false,
+                    },
+                  },
+                  {
+                    name: 'tag',
+                    in: 'cookie',
+                    schema: { type: 'array', items: { type: 'string', enum: ['cat', 'dog'] } },
+                  },
+                ],
+              },
+            },
+          },
+        },
+        ...constructorOpts,
+      });
+
+      test('passes validation for GET /pets, x-ids:1,2,3', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'get',
+          headers: { ...headers, 'x-ids': '1,2,3' },
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for GET /pets, x-ids:1,two', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'get',
+          headers: { ...headers, 'x-ids': '1,two' },
+        });
+        expect(valid.errors).toHaveLength(1);
+      });
+
+      test('passes validation for GET /pets, x-meta:a=1,b=2', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'get',
+          headers: { ...headers, 'x-meta': 'a=1,b=2' },
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for GET /pets, x-meta:a=1,c=2', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'get',
+          headers: { ...headers, 'x-meta': 'a=1,c=2' },
+        });
+        expect(valid.errors).toHaveLength(1);
+      });
+
+      test('passes validation for GET /pets, cookie:tag=cat; tag=dog', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'get',
+          headers: { ...headers, cookie: 'tag=cat; tag=dog' },
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for GET /pets, cookie:tag=cat; tag=cow', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'get',
+          headers: { ...headers, cookie: 'tag=cat; tag=cow' },
+        });
+        expect(valid.errors).toHaveLength(1);
+      });
+    });
+
     describe('request payloads', () => {
       let validator: OpenAPIValidator;
       const petSchema: OpenAPIV3_1.SchemaObject = {
@@ -702,6 +935,258 @@ describe.each([{}, { lazyCompileValidators: true }])('OpenAPIValidator with opts
         expect(valid.errors).toBeFalsy();
       });
     });
+
+    describe('request payloads by content type', () => {
+      const definition: OpenAPIV3_1.Document = {
+        ...meta,
+        paths: {
+          '/pets': {
+            patch: {
+              operationId: 'updatePet',
+              responses: { 200: { description: 'ok' } },
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      properties: { name: { type: 'string' } },
+                      required: ['name'],
+                    },
+                  },
+                  'application/merge-patch+json': {
+                    schema: {
+                      type: 'object',
+                      properties: { name: { type: 'string' } },
+                    },
+                  },
+                  'application/*+json': {
+                    schema: {
+                      type: 'object',
+                      properties: { id: { type: 'integer' } },
+                      required: ['id'],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+      const validator = new OpenAPIValidator({ definition, ...constructorOpts });
+
+      test('passes validation for PATCH /pets with application/json', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'patch',
+          headers: { ...headers, 'content-type': 'application/json' },
+          body: { name: 'Garfield' },
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for PATCH /pets with application/json and missing required field', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'patch',
+          headers: { ...headers, 'content-type': 'application/json' },
+          body: {},
+        });
+        expect(valid.errors).toHaveLength(1);
+        expect(valid.errors?.[0]?.params?.missingProperty).toBe('name');
+      });
+
+      test('passes validation for PATCH /pets with application/merge-patch+json', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'patch',
+          headers: { ...headers, 'content-type': 'application/merge-patch+json' },
+          body: {},
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for PATCH /pets with application/vnd.pet+json and missing required field', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'patch',
+          headers: { ...headers, 'content-type': 'application/vnd.pet+json' },
+          body: { name: 'Garfield' },
+        });
+        expect(valid.errors).toHaveLength(1);
+        expect(valid.errors?.[0]?.params?.missingProperty).toBe('id');
+      });
+
+      test('fails validation for PATCH /pets with an undeclared content type', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'patch',
+          headers: { ...headers, 'content-type': 'text/plain' },
+          body: 'Garfield',
+        });
+        expect(valid.errors).toHaveLength(1);
+        expect(valid.errors?.[0]?.keyword).toBe('unsupportedMediaType');
+      });
+    });
+
+    describe('form payloads', () => {
+      const definition: OpenAPIV3_1.Document = {
+        ...meta,
+        paths: {
+          '/pets': {
+            post: {
+              operationId: 'createPet',
+              responses: { 200: { description: 'ok' } },
+              requestBody: {
+                content: {
+                  'application/x-www-form-urlencoded': {
+                    schema: {
+                      type: 'object',
+                      additionalProperties: false,
+                      properties: {
+                        name: { type: 'string' },
+                        age: { type: 'integer' },
+                        lazy: { type: 'boolean' },
+                        tags: { type: 'array', items: { type: 'string' } },
+                        owner: {
+                          type: 'object',
+                          properties: { name: { type: 'string' } },
+                          required: ['name'],
+                        },
+                      },
+                      required: ['name'],
+                    },
+                    encoding: {
+                      tags: { style: 'form', explode: false },
+                      owner: { style: 'deepObject', explode: true },
+                    },
+                  },
+                  'multipart/form-data': {
+                    schema: {
+                      type: 'object',
+                      additionalProperties: false,
+                      properties: {
+                        name: { type: 'string' },
+                        age: { type: 'integer' },
+                        lazy: { type: 'boolean' },
+                        tags: { type: 'array', items: { type: 'string' } },
+                        owner: {
+                          type: 'object',
+                          properties: { name: { type: 'string' } },
+                          required: ['name'],
+                        },
+                      },
+                      required: ['name'],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+      const validator = new OpenAPIValidator({ definition, ...constructorOpts });
+      const multipart = (...parts: string[]) =>
+        parts.map((part) => `--boundary\r\n${part}\r\n`).join('') + '--boundary--\r\n';
+
+      test('passes validation for POST /pets with a urlencoded body', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'post',
+          headers: { ...headers, 'content-type': 'application/x-www-form-urlencoded' },
+          body: 'name=Garfield&tags=cat,lazy&owner[name]=Jon',
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('passes validation for POST /pets with integer and boolean urlencoded values', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'post',
+          headers: { ...headers, 'content-type': 'application/x-www-form-urlencoded' },
+          body: 'name=Garfield&age=5&lazy=true',
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for POST /pets with a urlencoded value that is not an integer', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'post',
+          headers: { ...headers, 'content-type': 'application/x-www-form-urlencoded' },
+          body: 'name=Garfield&age=five',
+        });
+        expect(valid.errors).toHaveLength(1);
+        expect(valid.errors?.[0]?.instancePath).toBe('/requestBody/age');
+        expect(valid.errors?.[0]?.message).toBe('must be integer');
+      });
+
+      test('fails validation for POST /pets with a urlencoded body missing a required field', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'post',
+          headers: { ...headers, 'content-type': 'application/x-www-form-urlencoded' },
+          body: 'tags=cat,lazy',
+        });
+        expect(valid.errors).toHaveLength(1);
+        expect(valid.errors?.[0]?.params?.missingProperty).toBe('name');
+      });
+
+      test('passes validation for POST /pets with a multipart body', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'post',
+          headers: { ...headers, 'content-type': 'multipart/form-data; boundary=boundary' },
+          body: multipart(
+            'Content-Disposition: form-data; name="name"\r\n\r\nGarfield',
+            'Content-Disposition: form-data; name="tags"\r\n\r\ncat',
+            'Content-Disposition: form-data; name="owner"\r\n\r\n{"name":"Jon"}',
+          ),
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('passes validation for POST /pets with integer and boolean multipart parts', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'post',
+          headers: { ...headers, 'content-type': 'multipart/form-data; boundary=boundary' },
+          body: multipart(
+            'Content-Disposition: form-data; name="name"\r\n\r\nGarfield',
+            'Content-Disposition: form-data; name="age"\r\n\r\n5',
+            'Content-Disposition: form-data; name="lazy"\r\n\r\nfalse',
+          ),
+        });
+        expect(valid.errors).toBeFalsy();
+      });
+
+      test('fails validation for POST /pets with a multipart part that is not a boolean', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'post',
+          headers: { ...headers, 'content-type': 'multipart/form-data; boundary=boundary' },
+          body: multipart(
+            'Content-Disposition: form-data; name="name"\r\n\r\nGarfield',
+            'Content-Disposition: form-data; name="lazy"\r\n\r\nyes',
+          ),
+        });
+        expect(valid.errors).toHaveLength(1);
+        expect(valid.errors?.[0]?.instancePath).toBe('/requestBody/lazy');
+      });
+
+      test('fails validation for POST /pets with an invalid multipart part', async () => {
+        const valid = validator.validateRequest({
+          path: '/pets',
+          method: 'post',
+          headers: { ...headers, 'content-type': 'multipart/form-data; boundary=boundary' },
+          body: multipart(
+            'Content-Disposition: form-data; name="name"\r\n\r\nGarfield',
+            'Content-Disposition: form-data; name="owner"\r\n\r\n{}',
+          ),
+        });
+        expect(valid.errors).toHaveLength(1);
+        expect(valid.errors?.[0]?.params?.missingProperty).toBe('name');
+      });
+    });
   });
 
   describe('.validateResponse', () => {
@@ -1641,4 +2126,470 @@ describe('OpenAPIValidator', () => {
       });
     });
   });
+
+  describe('.formatErrors', () => {
+    const validator = new OpenAPIValidator({
+      definition: {
+        ...meta,
+        paths: {
+          '/pets/{id}': {
+            put: {
+              operationId: 'replacePet',
+              responses: { 200: { description: 'ok' } },
+              parameters: [
+                { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+                { name: 'limit', in: 'query', schema: { type: 'integer', maximum: 100 } },
+                { name: 'X-Request-Id', in: 'header', required: true, schema: { type: 'string' } },
+                {
+                  name: 'filter',
+                  in: 'query',
+                  style: 'deepObject',
+                  schema: { type: 'object', properties: { status: { type: 'string', enum: ['sold', 'available'] } } },
+                },
+              ],
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      additionalProperties: false,
+                      properties: {
+                        name: { type: 'string', minLength: 1 },
+                        tags: { type: 'array', items: { type: 'string' } },
+                      },
+                      required: ['name'],
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      ajvOpts: { allErrors: true },
+    });
+
+    const validate = (req: Partial<Parameters<typeof validator.validateRequest>[0]>) => {
+      const request = {
+        method: 'put',
+        path: '/pets/1',
+        headers: { 'content-type': 'application/json', 'x-request-id': '1' },
+        body: { name: 'Garfield' },
+        ...req,
+      };
+      const { errors } = validator.validateRequest(request);
+      return OpenAPIValidator.formatErrors(
+        errors,
+        validator.router.parseRequest(request, validator.router.matchOperation(request)),
+      );
+    };
+
+    test('names parameters by location and name', () => {
+      expect(validate({ path: '/pets/abc', query: 'limit=1000&filter[status]=lost' })).toEqual([
+        {
+          in: 'path',
+          name: 'id',
+          pointer: '/id',
+          message: "path parameter 'id' must be integer",
+          schemaKeyword: 'type',
+          expected: 'integer',
+          received: 'abc',
+        },
+        {
+          in: 'query',
+          name: 'limit',
+          pointer: '/limit',
+          message: "query parameter 'limit' must be <= 100",
+          schemaKeyword: 'maximum',
+          expected: '<= 100',
+          received: '1000',
+        },
+        {
+          in: 'query',
+          name: 'filter',
+          pointer: '/filter/status',
+          message: "query parameter 'filter' property /status must be equal to one of the allowed values",
+          schemaKeyword: 'enum',
+          expected: ['sold', 'available'],
+          received: 'lost',
+        },
+      ]);
+    });
+
+    test('reports missing and unknown parameters', () => {
+      expect(validate({ headers: { 'content-type': 'application/json' }, query: 'unknown=1' })).toEqual([
+        {
+          in: 'query',
+          name: 'unknown',
+          pointer: '/unknown',
+          message: "query parameter 'unknown' is not allowed",
+          schemaKeyword: 'additionalProperties',
+          received: '1',
+        },
+        {
+          in: 'header',
+          name: 'x-request-id',
+          pointer: '/x-request-id',
+          message: "header parameter 'x-request-id' is required",
+          schemaKeyword: 'required',
+        },
+      ]);
+    });
+
+    test('reports request body errors with pointers into the body', () => {
+      expect(validate({ body: { name: '', tags: [1], age: 3 } })).toEqual([
+        {
+          in: 'body',
+          pointer: '/age',
+          message: 'request body property /age is not allowed',
+          schemaKeyword: 'additionalProperties',
+          received: 3,
+        },
+        {
+          in: 'body',
+          pointer: '/name',
+          message: 'request body property /name must NOT have fewer than 1 characters',
+          schemaKeyword: 'minLength',
+          expected: 1,
+          received: '',
+        },
+        {
+          in: 'body',
+          pointer: '/tags/0',
+          message: 'request body property /tags/0 must be string',
+          schemaKeyword: 'type',
+          expected: 'string',
+          received: 1,
+        },
+      ]);
+    });
+
+    test('reports errors outside of parameter locations as body errors', () => {
+      const errors = OpenAPIValidator.formatErrors(
+        validator.validateRequest({
+          method: 'put',
+          path: '/pets/1',
+          headers: { 'content-type': 'text/plain', 'x-request-id': '1' },
+          body: 'Garfield',
+        }).errors,
+      );
+      expect(errors).toContainEqual({
+        in: 'body',
+        pointer: '',
+        message: 'unsupported media type text/plain',
+        schemaKeyword: 'unsupportedMediaType',
+      });
+    });
+  });
+
+  describe('.summarizeErrors', () => {
+    test('joins formatted messages into one line', () => {
+      const summary = OpenAPIValidator.summarizeErrors([
+        {
+          keyword: 'type',
+          instancePath: '/query/limit',
+          schemaPath: '',
+          params: { type: 'integer' },
+          message: 'must be integer',
+        },
+        {
+          keyword: 'required',
+          instancePath: '/requestBody',
+          schemaPath: '',
+          params: { missingProperty: 'name' },
+          message: "must have required property 'name'",
+        },
+      ]);
+      expect(summary).toBe("query parameter 'limit' must be integer; request body property /name is required");
+    });
+  });
+
+  describe('JSON Schema dialects', () => {
+    // openapi-types doesn't know the 2020-12 keywords, so the definitions are built from plain objects
+    const definitionWithSchemas = (
+      requestSchema: object,
+      opts: { responseSchema?: object; jsonSchemaDialect?: string; openapi?: string } = {},
+    ) =>
+      ({
+        ...meta,
+        openapi: opts.openapi ?? meta.openapi,
+        ...(opts.jsonSchemaDialect ? { jsonSchemaDialect: opts.jsonSchemaDialect } : {}),
+        paths: {
+          '/pets': {
+            post: {
+              operationId: 'createPet',
+              requestBody: { content: { 'application/json': { schema: requestSchema } } },
+              responses: {
+                200: {
+                  description: 'ok',
+                  ...(opts.responseSchema ? { content: { 'application/json': { schema: opts.responseSchema } } } : {}),
+                },
+              },
+            },
+          },
+        },
+      }) as unknown as OpenAPIV3_1.Document;
+    const request = (body: unknown) => ({
+      method: 'post',
+      path: '/pets',
+      headers: { 'content-type': 'application/json' },
+      body,
+    });
+
+    test('compiles 3.1 schemas with the 2020-12 dialect', () => {
+      const validator = new OpenAPIValidator({
+        definition: definitionWithSchemas({
+          type: 'object',
+          properties: {
+            position: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], items: false },
+          },
+          unevaluatedProperties: false,
+        }),
+      });
+      expect(validator.getSchemaDialect()).toBe('2020-12');
+      expect(validator.validateRequest(request({ position: [1, 2] })).valid).toBe(true);
+      expect(validator.validateRequest(request({ position: [1, 'a'] })).valid).toBe(false);
+      expect(validator.validateRequest(request({ position: [1, 2, 3] })).valid).toBe(false);
+      expect(validator.validateRequest(request({ position: [1, 2], name: 'Garfield' })).valid).toBe(false);
+    });
+
+    test('resolves $dynamicRef in 3.1 schemas', () => {
+      const validator = new OpenAPIValidator({
+        definition: definitionWithSchemas({
+          $id: 'https://example.com/tree',
+          $dynamicAnchor: 'node',
+          type: 'object',
+          properties: { children: { type: 'array', items: { $dynamicRef: '#node' } } },
+        }),
+      });
+      expect(validator.validateRequest(request({ children: [{ children: [] }] })).valid).toBe(true);
+      expect(validator.validateRequest(request({ children: [{ children: [1] }] })).valid).toBe(false);
+    });
+
+    test('honours the jsonSchemaDialect of the document', () => {
+      const validator = new OpenAPIValidator({
+        definition: definitionWithSchemas(
+          { type: 'array', items: [{ type: 'number' }, { type: 'string' }] },
+          { jsonSchemaDialect: 'http://json-schema.org/draft-07/schema#' },
+        ),
+      });
+      expect(validator.getSchemaDialect()).toBe('draft-07');
+      expect(validator.validateRequest(request([1, 'a'])).valid).toBe(true);
+      expect(validator.validateRequest(request([1, 2])).valid).toBe(false);
+    });
+
+    test('honours $schema declared by request body and response schemas', () => {
+      const validator = new OpenAPIValidator({
+        definition: definitionWithSchemas(
+          { $schema: 'http://json-schema.org/draft-07/schema#', type: 'array', items: [{ type: 'number' }] },
+          {
+            responseSchema: {
+              $schema: 'https://json-schema.org/draft/2019-09/schema',
+              type: 'object',
+              properties: { id: { type: 'integer' } },
+              unevaluatedProperties: false,
+            },
+          },
+        ),
+      });
+      expect(validator.validateRequest(request([1, 'a'])).valid).toBe(true);
+      expect(validator.validateRequest(request(['a'])).valid).toBe(false);
+      expect(validator.validateResponse({ id: 1 }, 'createPet', 200).valid).toBe(true);
+      expect(validator.validateResponse({ id: 1, name: 'Garfield' }, 'createPet', 200).valid).toBe(false);
+    });
+
+    test('honours $schema declared by parameter, response and response header schemas', () => {
+      const tuple = {
+        $schema: 'http://json-schema.org/draft-07/schema#',
+        type: 'array',
+        items: [{ type: 'number' }, { type: 'string' }],
+      };
+      const validator = new OpenAPIValidator({
+        definition: {
+          ...meta,
+          paths: {
+            '/pets': {
+              get: {
+                operationId: 'getPets',
+                parameters: [
+                  { name: 'position', in: 'query', content: { 'application/json': { schema: tuple } } },
+                  { name: 'limit', in: 'query', schema: { type: 'integer' } },
+                ],
+                responses: {
+                  200: {
+                    description: 'ok',
+                    headers: { 'X-Position': { schema: tuple } },
+                    content: { 'application/json': { schema: tuple } },
+                  },
+                  400: {
+                    description: 'bad request',
+                    content: {
+                      'application/json': {
+                        schema: { type: 'object', properties: { err: { type: 'string' } }, required: ['err'] },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        } as unknown as OpenAPIV3_1.Document,
+      });
+      const query = (position: string, limit = '10') => ({
+        method: 'get',
+        path: '/pets',
+        query: { position, limit },
+        headers: {},
+      });
+      expect(validator.validateRequest(query('[1,"a"]')).valid).toBe(true);
+      expect(validator.validateRequest(query('["a",1]')).valid).toBe(false);
+      expect(validator.validateRequest(query('[1,"a"]', 'ten')).valid).toBe(false);
+      expect(
+        validator.validateRequest({ method: 'get', path: '/pets', query: { position: 'x' }, headers: {} }).valid,
+      ).toBe(false);
+      expect(validator.validateResponse([1, 'a'], 'getPets').valid).toBe(true);
+      expect(validator.validateResponse({ err: 'not found' }, 'getPets').valid).toBe(true);
+      expect(validator.validateResponse(['a', 1], 'getPets').errors).toContainEqual(
+        expect.objectContaining({ keyword: 'oneOf' }),
+      );
+      expect(validator.validateResponseHeaders({ 'x-position': [1, 'a'] }, 'getPets', { statusCode: 200 }).valid).toBe(
+        true,
+      );
+      expect(validator.validateResponseHeaders({ 'x-position': ['a', 1] }, 'getPets', { statusCode: 200 }).valid).toBe(
+        false,
+      );
+    });
+
+    test('keeps compiling 3.0 schemas as draft-07', () => {
+      const validator = new OpenAPIValidator({
+        definition: definitionWithSchemas(
+          { type: 'object', properties: { name: { type: 'string' } }, additionalProperties: false },
+          { openapi: '3.0.3' },
+        ),
+      });
+      expect(validator.getSchemaDialect({ $schema: 'https://json-schema.org/draft/2020-12/schema' })).toBe('draft-07');
+      expect(validator.validateRequest(request({ name: 'Garfield' })).valid).toBe(true);
+      expect(validator.validateRequest(request({ name: 'Garfield', age: 3 })).valid).toBe(false);
+    });
+  });
+
+  describe('OpenAPI schema keywords', () => {
+    const dog = {
+      type: 'object',
+      required: ['petType', 'bark'],
+      properties: { petType: { type: 'string' }, bark: { type: 'boolean' } },
+    };
+    const cat = {
+      type: 'object',
+      required: ['petType', 'meow'],
+      properties: { petType: { type: 'string' }, meow: { type: 'boolean' } },
+    };
+    // schemas are shared by reference, like in a dereferenced document
+    const definitionWithSchema = (schema: object, openapi = '3.0.3') =>
+      ({
+        ...meta,
+        openapi,
+        paths: {
+          '/pets': {
+            post: {
+              operationId: 'createPet',
+              requestBody: { content: { 'application/json': { schema } } },
+              responses: { 200: { description: 'ok', content: { 'application/json': { schema } } } },
+            },
+          },
+        },
+        components: { schemas: { Dog: dog, Cat: cat } },
+      }) as unknown as OpenAPIV3_1.Document;
+    const request = (body: unknown) => ({
+      method: 'post',
+      path: '/pets',
+      headers: { 'content-type': 'application/json' },
+      body,
+    });
+
+    describe('nullable', () => {
+      test('allows null for 3.0 schemas with a type or enum', () => {
+        const validator = new OpenAPIValidator({
+          definition: definitionWithSchema({
+            type: 'object',
+            properties: {
+              name: { type: 'string', nullable: true },
+              size: { type: 'string', enum: ['small', 'large'], nullable: true },
+            },
+          }),
+        });
+        expect(validator.validateRequest(request({ name: null, size: null })).valid).toBe(true);
+        expect(validator.validateRequest(request({ name: 'Garfield', size: 'large' })).valid).toBe(true);
+        expect(validator.validateRequest(request({ size: 'medium' })).valid).toBe(false);
+      });
+
+      test('allows null for 3.0 schemas without a type', () => {
+        const validator = new OpenAPIValidator({
+          definition: definitionWithSchema({
+            type: 'object',
+            properties: { owner: { allOf: [dog], nullable: true } },
+          }),
+        });
+        expect(validator.validateRequest(request({ owner: null })).valid).toBe(true);
+        expect(validator.validateRequest(request({ owner: { petType: 'dog', bark: true } })).valid).toBe(true);
+        expect(validator.validateRequest(request({ owner: { petType: 'dog' } })).valid).toBe(false);
+        expect(validator.validateResponse({ owner: null }, 'createPet', 200).valid).toBe(true);
+      });
+    });
+
+    describe('discriminator', () => {
+      test('validates only the subschema selected by mapping', () => {
+        const validator = new OpenAPIValidator({
+          definition: definitionWithSchema({
+            oneOf: [dog, cat],
+            discriminator: { propertyName: 'petType', mapping: { dog: '#/components/schemas/Dog', cat: 'Cat' } },
+          }),
+        });
+        expect(validator.validateRequest(request({ petType: 'dog', bark: true })).valid).toBe(true);
+        expect(validator.validateRequest(request({ petType: 'cat', meow: true })).valid).toBe(true);
+
+        const { errors } = validator.validateRequest(request({ petType: 'cat', bark: true }));
+        expect(OpenAPIValidator.formatErrors(errors)).toEqual([
+          {
+            in: 'body',
+            pointer: '/meow',
+            message: 'request body property /meow is required',
+            schemaKeyword: 'required',
+          },
+        ]);
+      });
+
+      test('selects subschemas by their component schema name without mapping', () => {
+        const validator = new OpenAPIValidator({
+          definition: definitionWithSchema({ oneOf: [dog, cat], discriminator: { propertyName: 'petType' } }),
+        });
+        expect(validator.validateRequest(request({ petType: 'Dog', bark: true })).valid).toBe(true);
+        expect(validator.validateRequest(request({ petType: 'Cat', bark: true })).valid).toBe(false);
+        expect(validator.validateResponse({ petType: 'Cat', meow: false }, 'createPet', 200).valid).toBe(true);
+      });
+
+      test('reports missing and unknown discriminator values', () => {
+        const validator = new OpenAPIValidator({
+          definition: definitionWithSchema({
+            oneOf: [dog, cat],
+            discriminator: { propertyName: 'petType', mapping: { dog: 'Dog', cat: 'Cat' } },
+          }),
+        });
+        const missing = validator.validateRequest(request({ bark: true }));
+        expect(OpenAPIValidator.formatErrors(missing.errors).map(({ message }) => message)).toEqual([
+          'request body property /petType is required',
+        ]);
+        const unknown = validator.validateRequest(request({ petType: 'fish' }));
+        expect(OpenAPIValidator.formatErrors(unknown.errors)).toEqual([
+          {
+            in: 'body',
+            pointer: '/petType',
+            message: 'request body property /petType must be equal to one of the allowed values',
+            schemaKeyword: 'enum',
+            expected: ['dog', 'cat'],
+          },
+        ]);
+      });
+    });
+  });
 });
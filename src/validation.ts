@@ -3,9 +3,12 @@
 
 import * as _ from 'lodash';
 import Ajv, { Options as AjvOpts, ErrorObject, FormatDefinition, ValidateFunction } from 'ajv';
+import Ajv2019 from 'ajv/dist/2019';
+import Ajv2020 from 'ajv/dist/2020';
 import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
-import { OpenAPIRouter, Request, Operation } from './router';
+import { OpenAPIRouter, Request, Operation, ParsedRequest } from './router';
 import OpenAPIUtils from './utils';
+import OpenAPIDeserializer from './deserialize';
 import { PickVersionElement, SetMatchType } from './backend';
 
 // alias Document to OpenAPIV3_1.Document
@@ -23,6 +26,49 @@ export interface ValidationResult<T = any> {
   coerced?: T;
 }
 
+/**
+ * A request validation error described in terms of the OpenAPI parameter or request body it concerns
+ *
+ * @export
+ * @interface FormattedValidationError
+ */
+export interface FormattedValidationError {
+  /**
+   * location of the invalid value
+   */
+  in: 'path' | 'query' | 'header' | 'cookie' | 'body';
+  /**
+   * name of the parameter, not set for request body errors
+   */
+  name?: string;
+  /**
+   * JSON pointer to the invalid value within its location, i.e. /limit or /tags/0
+   */
+  pointer: string;
+  message: string;
+  schemaKeyword: string;
+  expected?: any;
+  received?: any;
+}
+
+// maps the targets of the internal validation schema to parameter locations
+const errorLocations: { [target: string]: FormattedValidationError['in'] } = {
+  path: 'path',
+  query: 'query',
+  header: 'header',
+  cookie: 'cookie',
+  requestBody: 'body',
+};
+
+// maps parameter locations to the properties of a parsed request
+const requestProperties: { [location in FormattedValidationError['in']]: keyof ParsedRequest } = {
+  path: 'params',
+  query: 'query',
+  header: 'headers',
+  cookie: 'cookies',
+  body: 'requestBody',
+};
+
 /**
  * The internal JSON schema model to validate InputParameters against
  *
@@ -56,7 +102,11 @@ interface ResponseHeadersValidateFunctionMap {
 }
 
 interface StatusBasedResponseValidatorsFunctionMap {
-  [statusCode: string]: ValidateFunction;
+  [statusCode: string]: { [mediaType: string]: ValidateFunction };
+}
+
+interface RequestBodyValidatorsFunctionMap {
+  [mediaType: string]: ValidateFunction;
 }
 
 export enum ValidationContext {
@@ -68,6 +118,11 @@ export enum ValidationContext {
 
 export type AjvCustomizer = (originalAjv: Ajv, ajvOpts: AjvOpts, validationContext: ValidationContext) => Ajv;
 
+/**
+ * JSON Schema dialects schemas are compiled with
+ */
+export type SchemaDialect = 'draft-07' | '2019-09' | '2020-12';
+
 /**
  * Returns a function that validates that a signed number is within the given bit range
  * @param {number} bits
@@ -129,6 +184,7 @@ export class OpenAPIValidator<D extends Document = Document> {
   public coerceTypes: boolean;
 
   public requestValidators: { [operationId: string]: ValidateFunction[] | null };
+  public requestBodyValidators: { [operationId: string]: RequestBodyValidatorsFunctionMap | null };
   public responseValidators: { [operationId: string]: ValidateFunction | null };
   public statusBasedResponseValidators: { [operationId: string]: StatusBasedResponseValidatorsFunctionMap | null };
   public responseHeadersValidators: { [operationId: string]: ResponseHeadersValidateFunctionMap | null };
@@ -168,6 +224,7 @@ export class OpenAPIValidator<D extends Document = Document> {
 
     // initialize validator stores
     this.requestValidators = {};
+    this.requestBodyValidators = {};
     this.responseValidators = {};
     this.statusBasedResponseValidators = {};
     this.responseHeadersValidators = {};
@@ -190,6 +247,7 @@ export class OpenAPIValidator<D extends Document = Document> {
     for (const operation of operations) {
       const operationId = OpenAPIUtils.getOperationId(operation);
       this.requestValidators[operationId] = this.buildRequestValidatorsForOperation(operation);
+      this.requestBodyValidators[operationId] = this.buildRequestBodyValidatorsForOperation(operation);
     }
   }
 
@@ -245,13 +303,29 @@ export class OpenAPIValidator<D extends Document = Document> {
       throw new Error(`Unknown operation`);
     }
 
-    // get pre-compiled ajv schemas for operation
-    const { operationId } = operation;
-    const validators = this.getRequestValidatorsForOperation(operationId) || [];
-
     // build a parameter object to validate
     const { params, query, headers, cookies, requestBody } = this.router.parseRequest(req, operation);
 
+    // get pre-compiled ajv schemas for operation and the request body media type
+    const { operationId } = operation;
+    const validators = [...(this.getRequestValidatorsForOperation(operationId) || [])];
+    const mediaType = OpenAPIUtils.findRequestBodyMediaType(operation, headers['content-type']);
+    const requestBodyValidator = mediaType && this.getRequestBodyValidatorsForOperation(operationId)?.[mediaType];
+    if (requestBodyValidator) {
+      validators.unshift(requestBodyValidator);
+    }
+
+    if (operation.requestBody && headers['content-type'] && !mediaType) {
+      // the request body content type is not declared for the operation
+      result.errors.push({
+        keyword: 'unsupportedMediaType',
+        instancePath: '',
+        schemaPath: '#/requestBody/content',
+        params: { contentType: headers['content-type'] },
+        message: `unsupported media type ${headers['content-type']}`,
+      });
+    }
+
     // convert singular query parameters to arrays if specified as array in operation parametes
     if (query) {
       for (const [name, value] of _.entries(query)) {
@@ -305,8 +379,8 @@ export class OpenAPIValidator<D extends Document = Document> {
     }
 
     if (typeof requestBody === 'object' || headers['content-type'] === 'application/json') {
-      // include request body in validation if an object is provided
-      parameters.requestBody = requestBody;
+      // include request body in validation if an object is provided, binary bodies are validated as binary strings
+      parameters.requestBody = Buffer.isBuffer(requestBody) ? requestBody.toString('latin1') : requestBody;
     }
 
     // validate parameters against each pre-compiled schema
@@ -317,6 +391,8 @@ export class OpenAPIValidator<D extends Document = Document> {
       } else if (this.coerceTypes) {
         result.coerced.query = parameters.query;
         result.coerced.params = parameters.path;
+        result.coerced.headers = parameters.header;
+        result.coerced.cookies = parameters.cookie;
       }
     }
 
@@ -333,13 +409,22 @@ export class OpenAPIValidator<D extends Document = Document> {
   /**
    * Validates a response against a prebuilt Ajv validator and returns the result
    *
+   * JSON responses are validated, i.e. application/json and application/problem+json. With a status code, the schema
+   * of the media type matching the content-type is used, or application/json if no content-type is given.
+   *
    * @param {*} res
    * @param {(Operation<D> | string)} operation
    * @package {number} [statusCode]
+   * @param {string} [contentType] - Content-Type header of the response
    * @returns {ValidationResult}
    * @memberof OpenAPIRequestValidator
    */
-  public validateResponse(res: any, operation: Operation<D> | string, statusCode?: number): ValidationResult {
+  public validateResponse(
+    res: any,
+    operation: Operation<D> | string,
+    statusCode?: number,
+    contentType?: string | string[],
+  ): ValidationResult {
     const result: ValidationResult = { valid: true };
     result.errors = [];
 
@@ -354,8 +439,16 @@ export class OpenAPIValidator<D extends Document = Document> {
     if (statusCode) {
       // use specific status code
       const validateMap = this.getStatusBasedResponseValidatorForOperation(operationId);
-      if (validateMap) {
-        validate = OpenAPIUtils.findStatusCodeMatch(statusCode, validateMap);
+      const mediaTypeValidators: { [mediaType: string]: ValidateFunction } = validateMap
+        ? OpenAPIUtils.findStatusCodeMatch(statusCode, validateMap)
+        : undefined;
+      if (mediaTypeValidators) {
+        // select the validator by content-type, responses without one are treated as application/json
+        const mediaTypes = _.keys(mediaTypeValidators);
+        const mediaType = OpenAPIDeserializer.getMediaType(contentType)
+          ? OpenAPIUtils.findMediaTypeMatch(contentType, mediaTypes)
+          : OpenAPIUtils.findMediaTypeMatch('application/json', mediaTypes) ?? mediaTypes[0];
+        validate = mediaType ? mediaTypeValidators[mediaType] : null;
       }
     } else {
       // match against all status codes
@@ -471,17 +564,249 @@ export class OpenAPIValidator<D extends Document = Document> {
     return this.requestValidators[operationId];
   }
 
+  /**
+   * Get request body validator functions by media type for an operation by operationId
+   *
+   * @param {string} operationId
+   * @returns {*}  {(RequestBodyValidatorsFunctionMap | null)}
+   * @memberof OpenAPIValidator
+   */
+  public getRequestBodyValidatorsForOperation(operationId: string) {
+    if (this.requestBodyValidators[operationId] === undefined) {
+      const operation = this.router.getOperation(operationId) as Operation<D>;
+      this.requestBodyValidators[operationId] = this.buildRequestBodyValidatorsForOperation(operation);
+    }
+    return this.requestBodyValidators[operationId];
+  }
+
+  /**
+   * Formats request validation errors in terms of the parameters and request body they concern
+   *
+   * Ajv reports errors against the internal validation schema wrapping all parameters, i.e. /query/limit, which is
+   * mapped to the parameter location and name. Pass the parsed request to include the received values.
+   *
+   * @static
+   * @param {(ErrorObject[] | null)} [errors] - ValidationResult.errors
+   * @param {ParsedRequest} [req] - the parsed request that was validated
+   * @returns {FormattedValidationError[]}
+   * @memberof OpenAPIValidator
+   */
+  public static formatErrors(errors?: ErrorObject[] | null, req?: ParsedRequest): FormattedValidationError[] {
+    // if / then errors only repeat the errors of the subschema, i.e. the one selected by a discriminator
+    const reported = (errors || []).filter((error) => error.keyword !== 'if');
+    return reported.map((error) => {
+      const params: { [param: string]: any } = error.params || {};
+      const segments = error.instancePath.split('/').slice(1);
+      const property = params.missingProperty ?? params.additionalProperty;
+      if (property !== undefined) {
+        segments.push(String(property).replace(/~/g, '~0').replace(/\//g, '~1'));
+      }
+
+      // errors outside of a parameter location, i.e. unsupported media type or malformed JSON, have no location
+      const location = errorLocations[segments[0]];
+      const path = location ? segments.slice(1) : segments;
+      const keys = path.map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+      const name = location && location !== 'body' ? keys[0] : undefined;
+      const pointer = path.map((segment) => `/${segment}`).join('');
+
+      // what the error concerns, i.e. query parameter 'limit' or request body property /tags/0
+      let subject: string;
+      if (!location || location === 'body') {
+        subject = pointer ? `request body property ${pointer}` : 'request body';
+      } else if (name === undefined) {
+        subject = `${location} parameters`;
+      } else {
+        const nestedPointer = path
+          .slice(1)
+          .map((segment) => `/${segment}`)
+          .join('');
+        subject = `${location} parameter '${name}'${nestedPointer ? ` property ${nestedPointer}` : ''}`;
+      }
+
+      let message: string;
+      if (!location) {
+        message = error.message || error.keyword;
+      } else if (error.keyword === 'required') {
+        message = `${subject} is required`;
+      } else if (error.keyword === 'additionalProperties') {
+        message = `${subject} is not allowed`;
+      } else {
+        message = `${subject} ${error.message}`;
+      }
+
+      // the expected type, allowed values, pattern, format or limit
+      const expected = [
+        params.type,
+        params.allowedValues,
+        params.allowedValue,
+        params.pattern,
+        params.format,
+        params.comparison ? `${params.comparison} ${params.limit}` : params.limit,
+      ].find((value) => value !== undefined);
+
+      const source = location ? req?.[requestProperties[location]] : undefined;
+      const received = keys.length ? _.get(source, keys) : source;
+
+      return {
+        in: location || 'body',
+        ...(name !== undefined ? { name } : {}),
+        pointer,
+        message,
+        schemaKeyword: error.keyword,
+        ...(expected !== undefined ? { expected } : {}),
+        ...(received !== undefined ? { received } : {}),
+      };
+    });
+  }
+
+  /**
+   * Summarizes request validation errors in one line for logs and client messages, i.e.
+   * "query parameter 'limit' must be integer; request body property /name is required"
+   *
+   * @static
+   * @param {(ErrorObject[] | null)} [errors] - ValidationResult.errors
+   * @returns {string}
+   * @memberof OpenAPIValidator
+   */
+  public static summarizeErrors(errors?: ErrorObject[] | null): string {
+    return OpenAPIValidator.formatErrors(errors)
+      .map(({ message }) => message)
+      .join('; ');
+  }
+
   /**
    * Compiles a schema with Ajv instance and handles circular references.
    *
    * @param ajv The Ajv instance
    * @param schema The schema to compile
    */
-  private static compileSchema(ajv: Ajv, schema: any): ValidateFunction {
-    const decycledSchema = this.decycle(schema);
+  private compileSchema(ajv: Ajv, schema: any): ValidateFunction {
+    const decycledSchema = OpenAPIValidator.decycle(this.translateSchema(schema));
+    // the dialect declared by $schema is already selected with getAjv(), see getSchemaDialect
+    delete decycledSchema.$schema;
     return ajv.compile(decycledSchema);
   }
 
+  /**
+   * Produces a deep clone which translates OpenAPI schema keywords Ajv doesn't know into JSON Schema
+   *
+   * - nullable: true (OpenAPI 3.0 only) allows null, by adding null to type and enum, or with
+   *   anyOf: [{ type: 'null' }, schema] for schemas without a type
+   * - discriminator selects the oneOf or anyOf subschema to validate against by the value of its propertyName, using
+   *   the mapping and the names of component schemas. The selected subschema is applied with if / then, so only its
+   *   errors are reported.
+   *
+   * Object reference cycles are kept, to be replaced with JSONSchema refs by decycle()
+   *
+   * @param schema The schema to translate
+   */
+  private translateSchema(schema: any): any {
+    const translateNullable = !OpenAPIUtils.isOpenAPIV3_1(this.definition);
+    const translated = new WeakMap<object, any>();
+
+    const translate = (value: any): any => {
+      if (typeof value !== 'object' || value === null) {
+        return value;
+      }
+      if (translated.has(value)) {
+        return translated.get(value);
+      }
+      if (Array.isArray(value)) {
+        const nu: any[] = [];
+        translated.set(value, nu);
+        value.forEach((element) => nu.push(translate(element)));
+        return nu;
+      }
+
+      // register the translation before recursing, so cycles point to it
+      const discriminator = this.getDiscriminator(value);
+      const nullable = translateNullable && value.nullable === true;
+      const nu: any = {};
+      const wrapped = nullable && value.type === undefined && !discriminator;
+      translated.set(value, wrapped ? { anyOf: [{ type: 'null' }, nu] } : nu);
+      for (const [key, child] of Object.entries(value)) {
+        // values, not schemas
+        nu[key] = ['enum', 'const', 'default', 'example', 'examples'].includes(key) ? child : translate(child);
+      }
+
+      if (discriminator) {
+        const { propertyName, keyword, options } = discriminator;
+        delete nu[keyword];
+        delete nu.discriminator;
+        nu.type = nu.type ?? 'object';
+        nu.required = _.union(nu.required || [], [propertyName]);
+        nu.allOf = [
+          ...(nu.allOf || []),
+          { properties: { [propertyName]: { enum: options.map(([mappedValue]) => mappedValue) } } },
+          ...options.map(([mappedValue, subschema]) => ({
+            if: { type: 'object', required: [propertyName], properties: { [propertyName]: { const: mappedValue } } },
+            then: translate(subschema),
+          })),
+        ];
+      }
+
+      if (nullable) {
+        delete nu.nullable;
+        if (nu.type !== undefined) {
+          nu.type = _.union(_.castArray(nu.type), ['null']);
+        }
+        if (Array.isArray(nu.enum)) {
+          nu.enum = _.union(nu.enum, [null]);
+        }
+      }
+      return translated.get(value);
+    };
+
+    return translate(schema);
+  }
+
+  /**
+   * Gets the subschemas a discriminator selects from, with the discriminator values mapped to them
+   *
+   * Explicit mapping values are either JSON pointers into the document (#/components/schemas/Dog) or names of component
+   * schemas. Subschemas not in the mapping are selected by their component schema name.
+   *
+   * @param schema
+   * @returns the discriminator propertyName, the keyword of the subschemas and [value, subschema] pairs, or undefined
+   * if the schema has no discriminator for oneOf or anyOf
+   */
+  private getDiscriminator(
+    schema: any,
+  ): { propertyName: string; keyword: 'oneOf' | 'anyOf'; options: [string, any][] } | undefined {
+    const propertyName = schema.discriminator?.propertyName;
+    const keyword = Array.isArray(schema.oneOf) ? 'oneOf' : Array.isArray(schema.anyOf) ? 'anyOf' : undefined;
+    if (typeof propertyName !== 'string' || !keyword) {
+      return undefined;
+    }
+
+    const componentSchemas: { [name: string]: any } = this.definition.components?.schemas || {};
+    const resolve = (ref: string) =>
+      ref.startsWith('#/')
+        ? _.get(
+            this.definition,
+            ref
+              .slice(2)
+              .split('/')
+              .map((segment) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')),
+          )
+        : componentSchemas[ref];
+
+    const options: [string, any][] = [];
+    for (const [mappedValue, ref] of Object.entries<string>(schema.discriminator.mapping || {})) {
+      const subschema = resolve(ref);
+      if (subschema) {
+        options.push([mappedValue, subschema]);
+      }
+    }
+    for (const subschema of schema[keyword]) {
+      const name = _.findKey(componentSchemas, (componentSchema) => componentSchema === subschema);
+      if (name !== undefined && !options.some(([, mapped]) => mapped === subschema)) {
+        options.push([name, subschema]);
+      }
+    }
+    return options.length ? { propertyName, keyword, options } : undefined;
+  }
+
   /**
    * Produces a deep clone which replaces object reference cycles with JSONSchema refs.
    * This function is based on [cycle.js]{@link https://github.com/douglascrockford/JSON-js/blob/master/cycle.js}, which was referred by
@@ -542,7 +867,64 @@ export class OpenAPIValidator<D extends Document = Document> {
   }
 
   /**
-   * Builds Ajv request validation functions for an operation and registers them to requestValidators
+   * Builds Ajv request body validation functions for each media type of an operation's request body
+   *
+   * @param {Operation<D>} operation
+   * @returns {*}  {(RequestBodyValidatorsFunctionMap | null)}
+   * @memberof OpenAPIValidator
+   */
+  public buildRequestBodyValidatorsForOperation(operation: Operation<D>): RequestBodyValidatorsFunctionMap | null {
+    if (!operation?.operationId || !operation.requestBody) {
+      // no operationId or request body, don't register a validator
+      return null;
+    }
+
+    const requestBody = operation.requestBody as PickVersionElement<
+      D,
+      OpenAPIV3.RequestBodyObject,
+      OpenAPIV3_1.RequestBodyObject
+    >;
+    // schemas may declare their own dialect with $schema, so an Ajv instance is created per dialect
+    const getRequestBodyValidator = _.memoize((dialect: SchemaDialect) =>
+      this.getAjv(ValidationContext.RequestBody, {}, dialect),
+    );
+
+    const validators: RequestBodyValidatorsFunctionMap = {};
+    for (const [mediaType, mediaTypeObject] of _.entries(requestBody.content)) {
+      if (!mediaTypeObject?.schema) {
+        continue;
+      }
+      const requestBodySchema: InputValidationSchema = {
+        title: 'Request',
+        type: 'object',
+        additionalProperties: true,
+        properties: {
+          requestBody: mediaTypeObject.schema as PickVersionElement<
+            D,
+            OpenAPIV3.SchemaObject,
+            OpenAPIV3_1.SchemaObject
+          >,
+        },
+      };
+      requestBodySchema.required = [];
+      if (_.keys(requestBody.content).length === 1) {
+        // if there is only one specified format, it's required
+        requestBodySchema.required.push('requestBody');
+      }
+
+      this.removeBinaryPropertiesFromRequired(requestBodySchema);
+      validators[mediaType] = this.compileSchema(
+        getRequestBodyValidator(this.getSchemaDialect(mediaTypeObject.schema)),
+        requestBodySchema,
+      );
+    }
+    return validators;
+  }
+
+  /**
+   * Builds Ajv request validation functions for an operation's parameters and registers them to requestValidators
+   *
+   * Request bodies are validated with requestBodyValidators, see buildRequestBodyValidatorsForOperation
    *
    * @param {Operation<D>} operation
    * @returns {*}  {(ValidateFunction[] | null)}
@@ -557,39 +939,6 @@ export class OpenAPIValidator<D extends Document = Document> {
     // validator functions for this operation
     const validators: ValidateFunction[] = [];
 
-    // schema for operation requestBody
-    if (operation.requestBody) {
-      const requestBody = operation.requestBody as PickVersionElement<
-        D,
-        OpenAPIV3.RequestBodyObject,
-        OpenAPIV3_1.RequestBodyObject
-      >;
-      const jsonbody =
-        requestBody.content['application/json'] ||
-        requestBody.content['multipart/form-data'] ||
-        requestBody.content['application/x-www-form-urlencoded'];
-      if (jsonbody && jsonbody.schema) {
-        const requestBodySchema: InputValidationSchema = {
-          title: 'Request',
-          type: 'object',
-          additionalProperties: true,
-          properties: {
-            requestBody: jsonbody.schema as PickVersionElement<D, OpenAPIV3.SchemaObject, OpenAPIV3_1.SchemaObject>,
-          },
-        };
-        requestBodySchema.required = [];
-        if (_.keys(requestBody.content).length === 1) {
-          // if application/json is the only specified format, it's required
-          requestBodySchema.required.push('requestBody');
-        }
-
-        // add compiled params schema to schemas for this operation id
-        const requestBodyValidator = this.getAjv(ValidationContext.RequestBody);
-        this.removeBinaryPropertiesFromRequired(requestBodySchema);
-        validators.push(OpenAPIValidator.compileSchema(requestBodyValidator, requestBodySchema));
-      }
-    }
-
     // schema for operation parameters in: path,query,header,cookie
     const paramsSchema: InputValidationSchema = {
       title: 'Request',
@@ -624,6 +973,10 @@ export class OpenAPIValidator<D extends Document = Document> {
       required: [],
     };
 
+    // parameter schemas declaring another dialect with $schema are validated by a schema compiled for their dialect
+    const documentDialect = this.getSchemaDialect();
+    const dialectSchemas: { [dialect: string]: InputValidationSchema } = {};
+
     // params are dereferenced here, no reference objects.
     const { parameters } = operation;
     if (parameters) {
@@ -647,29 +1000,31 @@ export class OpenAPIValidator<D extends Document = Document> {
         // Assign the target schema's additionalProperties to the param schema's additionalProperties if the param's additionalProperties is set.
         // This is to support free-form query params where `additionalProperties` is an object.
         // https://swagger.io/specification/?sbsearch=free%20form
-        if (paramSchema && paramSchema?.additionalProperties !== undefined) {
+        if (param.in === 'query' && paramSchema && paramSchema?.additionalProperties !== undefined) {
           target.additionalProperties = paramSchema.additionalProperties;
         }
 
-        if (param.content && param.content['application/json']) {
-          target.properties[normalizedParamName] = param.content['application/json'].schema as PickVersionElement<
-            D,
-            OpenAPIV3.SchemaObject,
-            OpenAPIV3_1.SchemaObject
-          >;
+        const schema = (
+          param.content && param.content['application/json'] ? param.content['application/json'].schema : param.schema
+        ) as PickVersionElement<D, OpenAPIV3.SchemaObject, OpenAPIV3_1.SchemaObject>;
+        const dialect = this.getSchemaDialect(schema);
+        if (schema && dialect !== documentDialect) {
+          // any value passes here, the schema is validated with the validator for its dialect
+          target.properties[normalizedParamName] = {};
+          _.set(dialectSchemas, [dialect, 'properties', param.in, 'properties', normalizedParamName], schema);
         } else {
-          target.properties[normalizedParamName] = param.schema as PickVersionElement<
-            D,
-            OpenAPIV3.SchemaObject,
-            OpenAPIV3_1.SchemaObject
-          >;
+          target.properties[normalizedParamName] = schema;
         }
       });
     }
 
     // add compiled params schema to requestValidators for this operation id
     const paramsValidator = this.getAjv(ValidationContext.Params, { coerceTypes: true });
-    validators.push(OpenAPIValidator.compileSchema(paramsValidator, paramsSchema));
+    validators.push(this.compileSchema(paramsValidator, paramsSchema));
+    for (const [dialect, schema] of _.entries(dialectSchemas)) {
+      const dialectValidator = this.getAjv(ValidationContext.Params, { coerceTypes: true }, dialect as SchemaDialect);
+      validators.push(this.compileSchema(dialectValidator, schema));
+    }
     return validators;
   }
 
@@ -743,13 +1098,9 @@ export class OpenAPIValidator<D extends Document = Document> {
 
     _.mapKeys(operation.responses, (res, _status) => {
       const response = res as PickVersionElement<D, OpenAPIV3.ResponseObject, OpenAPIV3_1.ResponseObject>;
-      if (response.content && response.content['application/json'] && response.content['application/json'].schema) {
+      for (const [, mediaTypeObject] of this.getJsonMediaTypes(response.content)) {
         responseSchemas.push(
-          response.content['application/json'].schema as PickVersionElement<
-            D,
-            OpenAPIV3.SchemaObject,
-            OpenAPIV3_1.SchemaObject
-          >,
+          mediaTypeObject.schema as PickVersionElement<D, OpenAPIV3.SchemaObject, OpenAPIV3_1.SchemaObject>,
         );
       }
       return null;
@@ -760,10 +1111,54 @@ export class OpenAPIValidator<D extends Document = Document> {
       return null;
     }
 
-    // compile the validator function and register to responseValidators
-    const schema = { oneOf: responseSchemas };
-    const responseValidator = this.getAjv(ValidationContext.Response);
-    return OpenAPIValidator.compileSchema(responseValidator, schema);
+    // schemas may declare their own dialect with $schema, so an Ajv instance is created per dialect
+    const getValidator = _.memoize((dialect: SchemaDialect) => this.getAjv(ValidationContext.Response, {}, dialect));
+    const dialects = _.uniq(responseSchemas.map((schema) => this.getSchemaDialect(schema)));
+    if (dialects.length === 1) {
+      // compile the validator function and register to responseValidators
+      return this.compileSchema(getValidator(dialects[0]), { oneOf: responseSchemas });
+    }
+    // schemas of different dialects can't share a oneOf, so each is compiled with the Ajv instance for its dialect
+    const validateFns = responseSchemas.map((schema) =>
+      this.compileSchema(getValidator(this.getSchemaDialect(schema)), schema),
+    );
+    return this.combineValidateFunctions(validateFns, 'oneOf');
+  }
+
+  /**
+   * Combines validate functions compiled for different JSON Schema dialects into one
+   *
+   * - allOf is valid when all the functions are valid
+   * - oneOf is valid when exactly one of the functions is valid
+   *
+   * @param {ValidateFunction[]} validateFns
+   * @param {('allOf' | 'oneOf')} combinator
+   * @returns {ValidateFunction}
+   * @memberof OpenAPIValidator
+   */
+  private combineValidateFunctions(validateFns: ValidateFunction[], combinator: 'allOf' | 'oneOf'): ValidateFunction {
+    if (validateFns.length === 1) {
+      return validateFns[0];
+    }
+    const validate = ((data: any) => {
+      const results = validateFns.map((validateFn) => validateFn(data));
+      const passing = _.range(results.length).filter((i) => results[i]);
+      const errors = _.flatMap(validateFns, (validateFn) => validateFn.errors || []);
+      if (combinator === 'allOf') {
+        validate.errors = errors.length ? errors : null;
+        return !errors.length;
+      }
+      const oneOfError: ErrorObject = {
+        keyword: 'oneOf',
+        instancePath: '',
+        schemaPath: '#/oneOf',
+        params: { passingSchemas: passing.length ? passing : null },
+        message: 'must match exactly one schema in oneOf',
+      };
+      validate.errors = passing.length === 1 ? null : [...(passing.length ? [] : errors), oneOfError];
+      return passing.length === 1;
+    }) as ValidateFunction;
+    return validate;
   }
 
   /**
@@ -800,13 +1195,18 @@ export class OpenAPIValidator<D extends Document = Document> {
       return null;
     }
     const responseValidators: StatusBasedResponseValidatorsFunctionMap = {};
-    const validator = this.getAjv(ValidationContext.Response);
+    // schemas may declare their own dialect with $schema, so an Ajv instance is created per dialect
+    const getValidator = _.memoize((dialect: SchemaDialect) => this.getAjv(ValidationContext.Response, {}, dialect));
+    const validator = getValidator(this.getSchemaDialect());
 
     _.mapKeys(operation.responses, (res, status: string) => {
       const response = res as PickVersionElement<D, OpenAPIV3.ResponseObject, OpenAPIV3_1.ResponseObject>;
-      if (response.content && response.content['application/json'] && response.content['application/json'].schema) {
-        const validateFn = response.content['application/json'].schema;
-        responseValidators[status] = OpenAPIValidator.compileSchema(validator, validateFn);
+      for (const [mediaType, mediaTypeObject] of this.getJsonMediaTypes(response.content)) {
+        const validateFn = mediaTypeObject.schema;
+        responseValidators[status] = {
+          ...responseValidators[status],
+          [mediaType]: this.compileSchema(getValidator(this.getSchemaDialect(validateFn)), validateFn),
+        };
       }
 
       if (!response.content && status === '204') {
@@ -816,7 +1216,8 @@ export class OpenAPIValidator<D extends Document = Document> {
           description: 'The root schema comprises the entire JSON document.',
           default: null as null,
         };
-        responseValidators[status] = OpenAPIValidator.compileSchema(validator, validateFn);
+        // no content is expected whatever the content-type
+        responseValidators[status] = { '*/*': this.compileSchema(validator, validateFn) };
       }
 
       return null;
@@ -825,6 +1226,23 @@ export class OpenAPIValidator<D extends Document = Document> {
     return responseValidators;
   }
 
+  /**
+   * Gets the JSON media types with a schema from the content of a response, i.e. application/json or
+   * application/problem+json
+   *
+   * @param {{ [mediaType: string]: MediaTypeObject }} [content]
+   * @returns {[string, MediaTypeObject][]}
+   * @memberof OpenAPIValidator
+   */
+  private getJsonMediaTypes(content?: {
+    [mediaType: string]: OpenAPIV3.MediaTypeObject | OpenAPIV3_1.MediaTypeObject;
+  }): [string, OpenAPIV3.MediaTypeObject | OpenAPIV3_1.MediaTypeObject][] {
+    return _.entries(content).filter(
+      ([mediaType, mediaTypeObject]) =>
+        mediaTypeObject?.schema && /^[^/]+\/([^/]*\+)?json$/.test(OpenAPIDeserializer.getMediaType(mediaType) || ''),
+    );
+  }
+
   /**
    * Get response validator function for an operation by operationId
    *
@@ -858,7 +1276,12 @@ export class OpenAPIValidator<D extends Document = Document> {
     }
 
     const headerValidators: ResponseHeadersValidateFunctionMap = {};
-    const validator = this.getAjv(ValidationContext.ResponseHeaders, { coerceTypes: true });
+    // header schemas declaring another dialect with $schema are validated by a schema compiled for their dialect
+    const getValidator = _.memoize((dialect: SchemaDialect) =>
+      this.getAjv(ValidationContext.ResponseHeaders, { coerceTypes: true }, dialect),
+    );
+    const documentDialect = this.getSchemaDialect();
+    const validator = getValidator(documentDialect);
 
     _.mapKeys(operation.responses, (res, status: string) => {
       const response = res as PickVersionElement<D, OpenAPIV3.ResponseObject, OpenAPIV3_1.ResponseObject>;
@@ -867,22 +1290,33 @@ export class OpenAPIValidator<D extends Document = Document> {
         [headerName: string]: PickVersionElement<D, OpenAPIV3.SchemaObject, OpenAPIV3_1.SchemaObject>;
       } = {};
       const required: string[] = [];
+      const dialectProperties: { [dialect: string]: typeof properties } = {};
 
       _.mapKeys(response.headers, (h, headerName: string) => {
         const header = h as PickVersionElement<D, OpenAPIV3.HeaderObject, OpenAPIV3_1.HeaderObject>;
         headerName = headerName.toLowerCase();
         if (header.schema) {
-          properties[headerName] = header.schema as PickVersionElement<
-            D,
-            OpenAPIV3.SchemaObject,
-            OpenAPIV3_1.SchemaObject
-          >;
+          const schema = header.schema as PickVersionElement<D, OpenAPIV3.SchemaObject, OpenAPIV3_1.SchemaObject>;
+          const dialect = this.getSchemaDialect(schema);
+          if (dialect !== documentDialect) {
+            // any value passes here, the schema is validated with the validator for its dialect
+            properties[headerName] = {};
+            _.set(dialectProperties, [dialect, headerName], schema);
+          } else {
+            properties[headerName] = schema;
+          }
           required.push(headerName);
         }
         return null;
       });
+      const dialectValidateFns = _.entries(dialectProperties).map(([dialect, dialectHeaders]) =>
+        this.compileSchema(getValidator(dialect as SchemaDialect), {
+          type: 'object',
+          properties: { headers: { type: 'object', properties: dialectHeaders } },
+        }),
+      );
 
-      validateFns[SetMatchType.Any] = OpenAPIValidator.compileSchema(validator, {
+      validateFns[SetMatchType.Any] = this.compileSchema(validator, {
         type: 'object',
         properties: {
           headers: {
@@ -894,7 +1328,7 @@ export class OpenAPIValidator<D extends Document = Document> {
         },
       });
 
-      validateFns[SetMatchType.Superset] = OpenAPIValidator.compileSchema(validator, {
+      validateFns[SetMatchType.Superset] = this.compileSchema(validator, {
         type: 'object',
         properties: {
           headers: {
@@ -906,7 +1340,7 @@ export class OpenAPIValidator<D extends Document = Document> {
         },
       });
 
-      validateFns[SetMatchType.Subset] = OpenAPIValidator.compileSchema(validator, {
+      validateFns[SetMatchType.Subset] = this.compileSchema(validator, {
         type: 'object',
         properties: {
           headers: {
@@ -918,7 +1352,7 @@ export class OpenAPIValidator<D extends Document = Document> {
         },
       });
 
-      validateFns[SetMatchType.Exact] = OpenAPIValidator.compileSchema(validator, {
+      validateFns[SetMatchType.Exact] = this.compileSchema(validator, {
         type: 'object',
         properties: {
           headers: {
@@ -930,24 +1364,59 @@ export class OpenAPIValidator<D extends Document = Document> {
         },
       });
 
-      headerValidators[status] = validateFns;
+      headerValidators[status] = _.mapValues(validateFns, (validateFn) =>
+        this.combineValidateFunctions([validateFn, ...dialectValidateFns], 'allOf'),
+      );
       return null;
     });
 
     return headerValidators;
   }
 
+  /**
+   * Returns the JSON Schema dialect to compile a schema with
+   *
+   * OpenAPI 3.0 schemas are always compiled as draft-07. OpenAPI 3.1 schemas are compiled with the dialect declared by
+   * their $schema, or the jsonSchemaDialect of the document, defaulting to 2020-12 like the OpenAPI 3.1 base dialect
+   *
+   * @param {*} [schema]
+   * @returns {SchemaDialect}
+   * @memberof OpenAPIValidator
+   */
+  public getSchemaDialect(schema?: any): SchemaDialect {
+    if (!OpenAPIUtils.isOpenAPIV3_1(this.definition)) {
+      return 'draft-07';
+    }
+    const dialectUri: unknown = schema?.$schema ?? (this.definition as OpenAPIV3_1.Document).jsonSchemaDialect;
+    if (typeof dialectUri === 'string' && /draft-0[4-7]/.test(dialectUri)) {
+      return 'draft-07';
+    }
+    if (typeof dialectUri === 'string' && dialectUri.includes('2019-09')) {
+      return '2019-09';
+    }
+    return '2020-12';
+  }
+
   /**
    * Get Ajv options
    *
    * @param {ValidationContext} validationContext
    * @param {AjvOpts} [opts={}]
+   * @param {SchemaDialect} [dialect] - JSON Schema dialect, see getSchemaDialect (default: dialect of the document)
    * @returns Ajv
    * @memberof OpenAPIValidator
    */
-  public getAjv(validationContext: ValidationContext, opts: AjvOpts = {}) {
+  public getAjv(validationContext: ValidationContext, opts: AjvOpts = {}, dialect = this.getSchemaDialect()) {
     const ajvOpts = { ...this.ajvOpts, ...opts };
-    const ajv = new Ajv(ajvOpts);
+    let ajv: Ajv;
+    // Ajv2019 and Ajv2020 share the Ajv core API, so they can be passed on as Ajv
+    if (dialect === '2020-12') {
+      ajv = new Ajv2020(ajvOpts) as unknown as Ajv;
+    } else if (dialect === '2019-09') {
+      ajv = new Ajv2019(ajvOpts) as unknown as Ajv;
+    } else {
+      ajv = new Ajv(ajvOpts);
+    }
 
     for (const [name, format] of Object.entries(defaultFormats)) {
       ajv.addFormat(name, format);